@@ -32,7 +32,7 @@ END $$;
 CREATE TABLE IF NOT EXISTS platforms (
   id SERIAL PRIMARY KEY,
   name VARCHAR(50) UNIQUE NOT NULL,
-  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
 );
 
 -- Restaurants table
@@ -41,7 +41,7 @@ CREATE TABLE IF NOT EXISTS restaurants (
   name VARCHAR(255) NOT NULL,
   platform_id INTEGER REFERENCES platforms(id),
   external_id VARCHAR(100),
-  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
   UNIQUE(platform_id, name)
 );
 
@@ -52,6 +52,74 @@ CREATE UNIQUE INDEX idx_restaurants_platform_external_id
 ON restaurants(platform_id, external_id) 
 WHERE external_id IS NOT NULL;
 
+-- Every name and external id a restaurant has been seen with on its platform
+CREATE TABLE IF NOT EXISTS restaurant_aliases (
+  id SERIAL PRIMARY KEY,
+  restaurant_id INTEGER REFERENCES restaurants(id) ON DELETE CASCADE NOT NULL,
+  platform_id INTEGER REFERENCES platforms(id) NOT NULL,
+  alias_type VARCHAR(20) NOT NULL CHECK (alias_type IN ('name', 'external_id')),
+  value VARCHAR(255) NOT NULL,
+  first_seen_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+  last_seen_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(platform_id, alias_type, value)
+);
+
+-- Restaurants existing before aliases were tracked
+INSERT INTO restaurant_aliases (restaurant_id, platform_id, alias_type, value)
+SELECT id, platform_id, 'name', name FROM restaurants
+UNION ALL
+SELECT id, platform_id, 'external_id', external_id FROM restaurants WHERE external_id IS NOT NULL
+ON CONFLICT (platform_id, alias_type, value) DO NOTHING;
+
+-- Duplicates folded into another restaurant; the merged row itself is deleted
+CREATE TABLE IF NOT EXISTS restaurant_merges (
+  id SERIAL PRIMARY KEY,
+  from_restaurant_id INTEGER NOT NULL,
+  from_name VARCHAR(255) NOT NULL,
+  from_external_id VARCHAR(100),
+  into_restaurant_id INTEGER REFERENCES restaurants(id) ON DELETE SET NULL,
+  platform_id INTEGER REFERENCES platforms(id) NOT NULL,
+  orders_moved INTEGER NOT NULL DEFAULT 0,
+  ratings_moved INTEGER NOT NULL DEFAULT 0,
+  merged_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Cross-platform identity: a brand has physical locations, each served by one or more platform restaurants
+CREATE TABLE IF NOT EXISTS brands (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(255) UNIQUE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS locations (
+  id SERIAL PRIMARY KEY,
+  brand_id INTEGER REFERENCES brands(id) ON DELETE CASCADE NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Kept apart from restaurants so job rollbacks never undo a link
+CREATE TABLE IF NOT EXISTS restaurant_locations (
+  restaurant_id INTEGER PRIMARY KEY REFERENCES restaurants(id) ON DELETE CASCADE,
+  location_id INTEGER REFERENCES locations(id) ON DELETE CASCADE NOT NULL,
+  source VARCHAR(20) NOT NULL CHECK (source IN ('matcher', 'manual')),
+  linked_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Matcher proposals; reviewed pairs are never proposed again
+CREATE TABLE IF NOT EXISTS restaurant_matches (
+  id SERIAL PRIMARY KEY,
+  restaurant_id INTEGER REFERENCES restaurants(id) ON DELETE CASCADE NOT NULL,
+  candidate_id INTEGER REFERENCES restaurants(id) ON DELETE CASCADE NOT NULL,
+  score NUMERIC(4,3) NOT NULL,
+  reasons TEXT[] NOT NULL DEFAULT '{}',
+  status VARCHAR(20) NOT NULL DEFAULT 'proposed' CHECK (status IN ('proposed', 'accepted', 'rejected')),
+  created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+  reviewed_at TIMESTAMPTZ,
+  UNIQUE(restaurant_id, candidate_id),
+  CHECK (restaurant_id < candidate_id)
+);
+
 -- Enhanced Orders table with analytics fields
 CREATE TABLE IF NOT EXISTS orders (
   id SERIAL PRIMARY KEY,
@@ -63,14 +131,14 @@ CREATE TABLE IF NOT EXISTS orders (
   order_value DECIMAL(10,2),
   basket_size INTEGER,
   discount_amount DECIMAL(10,2),
-  order_datetime TIMESTAMP,
+  order_datetime TIMESTAMPTZ,
   restaurant_wait_time_minutes INTEGER, -- Time restaurant took to prepare?
   total_delivery_time_minutes INTEGER,  -- End-to-end delivery time..?
   courier_wait_time_minutes INTEGER,    -- Time courier waited at restaurant?
   prep_time_minutes INTEGER,            -- Original prep time estimate?
   currency_code VARCHAR(3) DEFAULT 'GBP',
   auto_accept_status VARCHAR(50),        -- DeliveryPlatform2 auto accept status
-  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
   UNIQUE(platform_id, platform_order_id)
 );
 
@@ -95,8 +163,8 @@ CREATE TABLE IF NOT EXISTS ratings (
   rating_value DECIMAL(3,2) NOT NULL,
   rating_type VARCHAR(50) DEFAULT 'overall',
   comment TEXT,
-  rating_date TIMESTAMP,
-  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  rating_date TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
 );
 
 -- Create partial unique constraint for ratings
@@ -112,10 +180,52 @@ CREATE TABLE IF NOT EXISTS integrations (
   platform_id INTEGER REFERENCES platforms(id) NOT NULL,
   field_mapping JSONB NOT NULL,
   tables TEXT[] NOT NULL DEFAULT '{}',
+  status_rules JSONB,                    -- Ordered order_status rules, see src/status-rules.ts
+  timezone VARCHAR(64),                  -- IANA zone of the source's wall-clock times (UTC when null)
   is_active BOOLEAN DEFAULT true,
-  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE integrations ADD COLUMN IF NOT EXISTS status_rules JSONB;
+ALTER TABLE integrations ADD COLUMN IF NOT EXISTS timezone VARCHAR(64);
+-- Headers a file must have before detection considers the integration
+ALTER TABLE integrations ADD COLUMN IF NOT EXISTS signature_headers TEXT[];
+-- What a load does when the file's columns drift from the mapping: warn (default), fail or continue
+ALTER TABLE integrations ADD COLUMN IF NOT EXISTS drift_policy VARCHAR(10) CHECK (drift_policy IN ('warn', 'fail', 'continue'));
+-- BCP 47 locale the source writes numbers in, e.g. de-DE for 1.234,56; en-GB when unset
+ALTER TABLE integrations ADD COLUMN IF NOT EXISTS number_locale VARCHAR(35);
+
+-- Every saved definition of an integration; rows are never updated
+CREATE TABLE IF NOT EXISTS integration_versions (
+  id SERIAL PRIMARY KEY,
+  integration_id INTEGER REFERENCES integrations(id) ON DELETE CASCADE NOT NULL,
+  version INTEGER NOT NULL,
+  platform_id INTEGER REFERENCES platforms(id) NOT NULL,
+  field_mapping JSONB NOT NULL,
+  tables TEXT[] NOT NULL DEFAULT '{}',
+  status_rules JSONB,
+  timezone VARCHAR(64),
+  note TEXT,
+  created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(integration_id, version)
 );
 
+ALTER TABLE integrations ADD COLUMN IF NOT EXISTS current_version_id INTEGER REFERENCES integration_versions(id);
+
+-- Integrations saved before versioning start at version 1
+INSERT INTO integration_versions (integration_id, version, platform_id, field_mapping, tables, status_rules, timezone, note, created_at)
+SELECT i.id, 1, i.platform_id, i.field_mapping, i.tables, i.status_rules, i.timezone, 'Definition when versioning was introduced', i.created_at
+FROM integrations i
+WHERE NOT EXISTS (SELECT 1 FROM integration_versions v WHERE v.integration_id = i.id);
+
+UPDATE integrations i SET current_version_id = v.id
+FROM integration_versions v
+WHERE v.integration_id = i.id AND v.version = 1 AND i.current_version_id IS NULL;
+
+ALTER TABLE integration_versions ADD COLUMN IF NOT EXISTS signature_headers TEXT[];
+ALTER TABLE integration_versions ADD COLUMN IF NOT EXISTS drift_policy VARCHAR(10);
+ALTER TABLE integration_versions ADD COLUMN IF NOT EXISTS number_locale VARCHAR(35);
+
 -- Jobs tracking table
 CREATE TABLE IF NOT EXISTS ingestion_jobs (
   id SERIAL PRIMARY KEY,
@@ -127,10 +237,112 @@ CREATE TABLE IF NOT EXISTS ingestion_jobs (
   inserted_rows INTEGER DEFAULT 0,
   error_rows INTEGER DEFAULT 0,
   error_message TEXT,
-  started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-  completed_at TIMESTAMP
+  started_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMPTZ,
+  reprocess_of INTEGER REFERENCES ingestion_jobs(id)  -- Earlier job for the same file, when forced through again
 );
 
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS reprocess_of INTEGER REFERENCES ingestion_jobs(id);
+-- Integration definition the job loaded with (null for jobs from before versioning)
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS integration_version_id INTEGER REFERENCES integration_versions(id);
+-- Headers the file had, and how they differed from the mapping and the previous job (see src/schema-drift.ts)
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS source_headers TEXT[];
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS schema_drift JSONB;
+-- Job lifecycle: pending → running → completed | partial | failed | cancelled, later rolled_back
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS error_context JSONB;
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS worker VARCHAR(255);           -- host:pid running the job
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ;      -- last progress write; stale when running and old
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS cancel_requested_at TIMESTAMPTZ;
+-- Resuming an interrupted load: the file it read, and the rows and counters committed so far
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS file_hash VARCHAR(64);
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS checkpoint JSONB;
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS resume_count INTEGER DEFAULT 0;
+-- Zip archive a member was read from; file_path is then "<archive>!<member>"
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS archive_path VARCHAR(500);
+
+-- Lineage: the job that last wrote each row
+ALTER TABLE restaurants ADD COLUMN IF NOT EXISTS ingestion_job_id INTEGER REFERENCES ingestion_jobs(id);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS ingestion_job_id INTEGER REFERENCES ingestion_jobs(id);
+ALTER TABLE ratings ADD COLUMN IF NOT EXISTS ingestion_job_id INTEGER REFERENCES ingestion_jobs(id);
+
+-- First write by each job to each row, with the row as it was before; used by rollback
+CREATE TABLE IF NOT EXISTS job_changes (
+  id BIGSERIAL PRIMARY KEY,
+  job_id INTEGER REFERENCES ingestion_jobs(id) NOT NULL,
+  table_name VARCHAR(50) NOT NULL,
+  row_id INTEGER NOT NULL,
+  action VARCHAR(10) NOT NULL,           -- INSERT or UPDATE
+  previous JSONB,                        -- Row before the job's first write (UPDATE only)
+  created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE OR REPLACE FUNCTION record_job_change() RETURNS trigger AS $$
+BEGIN
+    -- Rollback restores rows to earlier jobs' values; those are not new writes
+    IF NEW.ingestion_job_id IS NULL OR current_setting('ingest.rollback', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO job_changes (job_id, table_name, row_id, action)
+        VALUES (NEW.ingestion_job_id, TG_TABLE_NAME, NEW.id, 'INSERT');
+    ELSIF NEW.ingestion_job_id IS DISTINCT FROM OLD.ingestion_job_id THEN
+        INSERT INTO job_changes (job_id, table_name, row_id, action, previous)
+        VALUES (NEW.ingestion_job_id, TG_TABLE_NAME, NEW.id, 'UPDATE', to_jsonb(OLD));
+    END IF;
+    RETURN NEW;
+END $$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS restaurants_job_change ON restaurants;
+CREATE TRIGGER restaurants_job_change AFTER INSERT OR UPDATE ON restaurants
+    FOR EACH ROW EXECUTE FUNCTION record_job_change();
+
+DROP TRIGGER IF EXISTS orders_job_change ON orders;
+CREATE TRIGGER orders_job_change AFTER INSERT OR UPDATE ON orders
+    FOR EACH ROW EXECUTE FUNCTION record_job_change();
+
+DROP TRIGGER IF EXISTS ratings_job_change ON ratings;
+CREATE TRIGGER ratings_job_change AFTER INSERT OR UPDATE ON ratings
+    FOR EACH ROW EXECUTE FUNCTION record_job_change();
+
+-- Column-level changes to orders across successive loads
+CREATE TABLE IF NOT EXISTS order_history (
+  id BIGSERIAL PRIMARY KEY,
+  order_id INTEGER REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  job_id INTEGER REFERENCES ingestion_jobs(id),
+  column_name VARCHAR(63) NOT NULL,
+  old_value JSONB,
+  new_value JSONB,
+  changed_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE OR REPLACE FUNCTION record_order_history() RETURNS trigger AS $$
+DECLARE
+    old_row JSONB := to_jsonb(OLD);
+    new_row JSONB := to_jsonb(NEW);
+    col TEXT;
+BEGIN
+    -- A rollback removes the job's history rather than adding to it
+    IF current_setting('ingest.rollback', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    FOR col IN SELECT jsonb_object_keys(new_row) LOOP
+        IF col NOT IN ('id', 'ingestion_job_id', 'created_at') AND old_row -> col IS DISTINCT FROM new_row -> col THEN
+            INSERT INTO order_history (order_id, job_id, column_name, old_value, new_value)
+            VALUES (NEW.id,
+                    -- Manual fixes such as restaurant merges are not attributed to the loading job
+                    CASE WHEN current_setting('ingest.manual', true) = 'on' THEN NULL ELSE NEW.ingestion_job_id END,
+                    col, old_row -> col, new_row -> col);
+        END IF;
+    END LOOP;
+    RETURN NEW;
+END $$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS orders_history ON orders;
+CREATE TRIGGER orders_history AFTER UPDATE ON orders
+    FOR EACH ROW WHEN (OLD.* IS DISTINCT FROM NEW.*) EXECUTE FUNCTION record_order_history();
+
 -- File tracking table
 CREATE TABLE IF NOT EXISTS data_source_files (
   id SERIAL PRIMARY KEY,
@@ -139,10 +351,84 @@ CREATE TABLE IF NOT EXISTS data_source_files (
   file_hash VARCHAR(64) NOT NULL,
   total_rows INTEGER NOT NULL,
   job_id INTEGER REFERENCES ingestion_jobs(id),
-  processed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  processed_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
   UNIQUE(integration_id, file_hash)
 );
 
+ALTER TABLE data_source_files ADD COLUMN IF NOT EXISTS archive_path VARCHAR(500);
+
+-- Rows that failed to load, kept for inspection and re-drive
+CREATE TABLE IF NOT EXISTS quarantined_records (
+  id SERIAL PRIMARY KEY,
+  job_id INTEGER REFERENCES ingestion_jobs(id) NOT NULL,
+  line_number INTEGER NOT NULL,
+  raw_record JSONB NOT NULL,
+  target_table VARCHAR(50),
+  error_code VARCHAR(50) NOT NULL,
+  error_message TEXT NOT NULL,
+  error_context JSONB,
+  status VARCHAR(20) DEFAULT 'pending',
+  created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+  resolved_at TIMESTAMPTZ
+);
+
+-- Daily exchange rates: one unit of base_currency buys `rate` of quote_currency
+CREATE TABLE IF NOT EXISTS fx_rates (
+  base_currency VARCHAR(3) NOT NULL,
+  quote_currency VARCHAR(3) NOT NULL,
+  rate_date DATE NOT NULL,
+  rate DECIMAL(18,8) NOT NULL CHECK (rate > 0),
+  source VARCHAR(500),
+  imported_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (base_currency, quote_currency, rate_date)
+);
+
+-- Rate to convert an amount on a date: stored directly, inverted, or crossed through a shared
+-- base (ECB files quote everything against EUR). Rates are published on working days, so the
+-- latest within the preceding week stands in; older than that, or none at all, gives NULL
+CREATE OR REPLACE FUNCTION fx_rate(from_currency VARCHAR, to_currency VARCHAR, on_date DATE)
+RETURNS NUMERIC AS $$
+    SELECT CASE WHEN from_currency = to_currency THEN 1 ELSE (
+        SELECT rate FROM (
+            SELECT rate_date, rate
+            FROM fx_rates
+            WHERE base_currency = from_currency AND quote_currency = to_currency
+              AND rate_date BETWEEN on_date - 7 AND on_date
+            UNION ALL
+            SELECT rate_date, 1 / rate
+            FROM fx_rates
+            WHERE base_currency = to_currency AND quote_currency = from_currency
+              AND rate_date BETWEEN on_date - 7 AND on_date
+            UNION ALL
+            SELECT f.rate_date, t.rate / f.rate
+            FROM fx_rates f
+            JOIN fx_rates t ON t.base_currency = f.base_currency AND t.rate_date = f.rate_date
+            WHERE f.quote_currency = from_currency AND t.quote_currency = to_currency
+              AND f.rate_date BETWEEN on_date - 7 AND on_date
+        ) candidates
+        ORDER BY rate_date DESC
+        LIMIT 1
+    ) END
+$$ LANGUAGE sql STABLE;
+
+-- Databases created before timestamps became zone-aware: existing values are read in the
+-- session TimeZone, so set it to the zone those loads ran in before applying this
+DO $$
+DECLARE
+    col RECORD;
+BEGIN
+    FOR col IN
+        SELECT table_name, column_name
+        FROM information_schema.columns
+        WHERE table_schema = current_schema()
+          AND data_type = 'timestamp without time zone'
+          AND table_name IN ('platforms', 'restaurants', 'orders', 'ratings', 'integrations',
+                             'ingestion_jobs', 'data_source_files', 'quarantined_records')
+    LOOP
+        EXECUTE format('ALTER TABLE %I ALTER COLUMN %I TYPE TIMESTAMPTZ', col.table_name, col.column_name);
+    END LOOP;
+END $$;
+
 
 
 -- Create indexes for performance
@@ -188,6 +474,78 @@ EXCEPTION
     WHEN duplicate_object THEN null;
 END $$;
 
+DO $$ BEGIN
+    CREATE INDEX idx_quarantined_records_job_status ON quarantined_records(job_id, status);
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE INDEX idx_job_changes_job ON job_changes(job_id, table_name, action);
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE INDEX idx_restaurant_aliases_restaurant ON restaurant_aliases(restaurant_id);
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE INDEX idx_restaurant_locations_location ON restaurant_locations(location_id);
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE INDEX idx_restaurant_matches_status ON restaurant_matches(status, score DESC);
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE INDEX idx_order_history_order ON order_history(order_id, changed_at);
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE INDEX idx_order_history_job ON order_history(job_id, column_name);
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE INDEX idx_ingestion_jobs_status ON ingestion_jobs(status, started_at);
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE INDEX idx_ingestion_jobs_file ON ingestion_jobs(integration_id, file_hash);
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE INDEX idx_fx_rates_quote ON fx_rates(quote_currency, rate_date);
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE INDEX idx_orders_ingestion_job ON orders(ingestion_job_id);
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE INDEX idx_ratings_ingestion_job ON ratings(ingestion_job_id);
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
 -- Additional composite indexes
 DO $$ BEGIN
     CREATE INDEX idx_orders_restaurant_date ON orders(restaurant_id, order_datetime);
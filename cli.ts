@@ -1,14 +1,190 @@
 #!/usr/bin/env node
 
-import { IngestionEngine } from './src/ingestion-engine.js';
+import * as fs from 'fs';
+import { IngestionEngine, MAX_CONCURRENCY } from './src/ingestion-engine.js';
 import { Database } from './src/database.js';
 import { Validators, Logger, ValidationError, ProcessingError, handleError } from './src/utils.js';
+import { Integration, IngestionJob, JobFilters, JobStatus, LoadOptions, ProcessResult, SourceOptions, SourceFormat, WatchOptions, AnalysisGrouping, LocationSummary, DefinitionChange, DefinitionFormat, FieldMap, IntegrationDefinition, MappingProblem } from './src/types.js';
+import { DateParser } from './src/date-parser.js';
+import { InboxWatcher } from './src/inbox-watcher.js';
+import { RestaurantMatcher, DEFAULT_MATCH_THRESHOLD } from './src/restaurant-matcher.js';
+import { IntegrationFiles } from './src/integration-files.js';
+import { IntegrationSchema } from './src/integration-schema.js';
+import { TransformRegistry } from './src/transforms.js';
+import { StatusRules } from './src/status-rules.js';
+import { SchemaDriftCheck } from './src/schema-drift.js';
+import { FilePatterns } from './src/file-patterns.js';
+import { FxRates, DEFAULT_REPORTING_CURRENCY } from './src/fx-rates.js';
+import { DEFAULT_NUMBER_LOCALE } from './src/number-parser.js';
 
 
 const db = new Database();
 const ingestionEngine = new IngestionEngine(db);
 
-async function processFile(filePath: string, integrationKey?: string): Promise<void> {
+// Flags that never take a value, so the next argument stays positional
+const BOOLEAN_FLAGS = new Set<string>(['force', 'all', 'dry-run', 'stale', 'restart']);
+
+// Splits "--name value" / "--name=value" options out of the positional arguments
+function parseArgs(argv: string[]): { positional: string[]; flags: Record<string, string | boolean> } {
+  const positional: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s);
+    if (inlineValue !== undefined) {
+      flags[name] = inlineValue;
+    } else if (!BOOLEAN_FLAGS.has(name) && i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      flags[name] = argv[++i];
+    } else {
+      flags[name] = true;
+    }
+  }
+
+  return { positional, flags };
+}
+
+function parseSourceOptions(flags: Record<string, string | boolean>): SourceOptions {
+  const options: SourceOptions = {};
+
+  if (flags['format'] !== undefined) {
+    const formats: SourceFormat[] = ['csv', 'xlsx', 'json', 'ndjson'];
+    if (!formats.includes(flags['format'] as SourceFormat)) {
+      throw new ValidationError('Unsupported format', { format: flags['format'], validFormats: formats });
+    }
+    options.format = flags['format'] as SourceFormat;
+  }
+
+  if (typeof flags['sheet'] === 'string') {
+    options.sheet = flags['sheet'];
+  }
+
+  if (typeof flags['member'] === 'string') {
+    options.member = flags['member'];
+  }
+
+  if (flags['header-row'] !== undefined) {
+    const headerRow = Number(flags['header-row']);
+    if (!Number.isInteger(headerRow) || headerRow < 1) {
+      throw new ValidationError('Header row must be a positive integer', { headerRow: flags['header-row'] });
+    }
+    options.headerRow = headerRow;
+  }
+
+  return options;
+}
+
+function parseLoadOptions(flags: Record<string, string | boolean>): LoadOptions {
+  const options: LoadOptions = parseSourceOptions(flags);
+
+  if (flags['batch-size'] !== undefined) {
+    options.batchSize = Number(flags['batch-size']);
+  }
+
+  if (flags['transaction'] !== undefined) {
+    if (flags['transaction'] !== 'file' && flags['transaction'] !== 'batch') {
+      throw new ValidationError('Transaction mode must be "file" or "batch"', { transaction: flags['transaction'] });
+    }
+    options.transactionMode = flags['transaction'];
+  }
+
+  if (flags['restart'] === true) {
+    options.resume = false;
+  }
+
+  return options;
+}
+
+function parseVersion(value: string | boolean | undefined): number {
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new ValidationError('Integration version must be a positive integer', { version: value });
+  }
+  return version;
+}
+
+function parseWatchOptions(flags: Record<string, string | boolean>): WatchOptions {
+  const options: WatchOptions = parseLoadOptions(flags);
+
+  for (const [flag, key] of [['interval', 'intervalMs'], ['settle', 'settleMs']] as const) {
+    if (flags[flag] !== undefined) {
+      const seconds = Number(flags[flag]);
+      if (!Number.isFinite(seconds) || seconds <= 0) {
+        throw new ValidationError(`--${flag} must be a positive number of seconds`, { [flag]: flags[flag] });
+      }
+      options[key] = seconds * 1000;
+    }
+  }
+
+  if (typeof flags['log'] === 'string') {
+    options.logPath = flags['log'];
+  }
+
+  return options;
+}
+
+function parseAnalysisGrouping(flags: Record<string, string | boolean>): AnalysisGrouping {
+  const grouping = flags['group-by'] ?? 'restaurant';
+  const groupings: AnalysisGrouping[] = ['restaurant', 'location', 'brand'];
+  if (!groupings.includes(grouping as AnalysisGrouping)) {
+    throw new ValidationError('Unsupported grouping', { groupBy: grouping, validGroupings: groupings });
+  }
+  return grouping as AnalysisGrouping;
+}
+
+// Maps each restaurant to the unit analysis reports on; unlinked restaurants stand alone
+function analysisUnits(grouping: AnalysisGrouping): string {
+  const unit = {
+    restaurant: { id: `'restaurant:' || r.id`, name: 'r.name' },
+    location: { id: `COALESCE('location:' || l.id, 'restaurant:' || r.id)`, name: `COALESCE(b.name || ' - ' || l.name, r.name)` },
+    brand: { id: `COALESCE('brand:' || b.id, 'restaurant:' || r.id)`, name: 'COALESCE(b.name, r.name)' }
+  }[grouping];
+
+  return `(
+      SELECT r.id AS restaurant_id, ${unit.id} AS unit_id, ${unit.name} AS unit_name
+      FROM restaurants r
+      LEFT JOIN restaurant_locations rl ON rl.restaurant_id = r.id
+      LEFT JOIN locations l ON rl.location_id = l.id
+      LEFT JOIN brands b ON l.brand_id = b.id
+    )`;
+}
+
+// Orders with order_value converted into the reporting currency ($2) at the rate for the
+// order's date in the reporting zone ($1); reporting_value is NULL where no rate is known
+function reportingOrders(): string {
+  return `(
+      SELECT o.*, o.order_value * fx_rate(o.currency_code, $2, (o.order_datetime AT TIME ZONE $1)::date) AS reporting_value
+      FROM orders o
+    )`;
+}
+
+function parseReportingCurrency(flags: Record<string, string | boolean>): string {
+  const currency = String(typeof flags['currency'] === 'string'
+    ? flags['currency']
+    : process.env.REPORTING_CURRENCY || DEFAULT_REPORTING_CURRENCY).toUpperCase();
+  if (!FxRates.isCurrencyCode(currency)) {
+    throw new ValidationError('Reporting currency must be a three-letter ISO code', { currency });
+  }
+  return currency;
+}
+
+// Zone analysis renders dates and hours in; independent of where the loads ran
+function parseReportingTimezone(flags: Record<string, string | boolean>): string {
+  const timezone = typeof flags['timezone'] === 'string'
+    ? flags['timezone']
+    : process.env.REPORTING_TIMEZONE || 'Europe/London';
+  if (!DateParser.isValidTimezone(timezone)) {
+    throw new ValidationError('Unknown timezone', { timezone });
+  }
+  return timezone;
+}
+
+async function processFile(filePath: string, integrationKey?: string, options: LoadOptions = {}): Promise<void> {
   try {
     // Input validation
     if (!Validators.isValidFilePath(filePath)) {
@@ -19,15 +195,859 @@ async function processFile(filePath: string, integrationKey?: string): Promise<v
       throw new ValidationError('Invalid integration key', { integrationKey });
     }
 
-    await ingestionEngine.processFile(filePath, integrationKey);
+    const result = await ingestionEngine.processFile(filePath, integrationKey, options);
     Logger.success('File processed successfully');
+    if (result.members) {
+      console.log(`\n📦 ${result.members.length} FILE(S) IN ${filePath}\n`);
+      result.members.forEach(member => console.log(`  ${describeLoad(member)}`));
+    }
+    if (result.jobId) {
+      const changes = await db.getJobChangeSummary(result.jobId);
+      Logger.info(`Orders: ${changes.inserted} inserted, ${changes.changed} changed, ${changes.unchanged} unchanged (details: changes ${result.jobId})`);
+    }
+  } catch (error: unknown) {
+    handleError(error, 'file processing');
+  }
+}
+
+async function processFiles(patterns: string[], integrationKey: string | undefined, options: LoadOptions, concurrency: number): Promise<void> {
+  try {
+    if (integrationKey && !Validators.isValidIntegrationKey(integrationKey)) {
+      throw new ValidationError('Invalid integration key', { integrationKey });
+    }
+
+    const paths = await FilePatterns.expand(patterns);
+    if (paths.length === 1) {
+      return await processFile(paths[0], integrationKey, options);
+    }
+
+    Logger.info(`Loading ${paths.length} files, ${Math.min(concurrency, paths.length)} at a time`);
+    const outcomes = await ingestionEngine.processFiles(paths, integrationKey, options, concurrency);
+
+    console.log(`\n📦 LOADED ${outcomes.length} FILES\n`);
+    outcomes.forEach(({ path, result, error }) => {
+      if (error) {
+        console.log(`  ❌ ${path}: ${error.message}`);
+        return;
+      }
+      console.log(`  ${describeLoad(result!)}`);
+      result!.members?.forEach(member => console.log(`      ${describeLoad(member)}`));
+    });
+
+    const failed = outcomes.filter(outcome => outcome.error);
+    if (failed.length > 0) {
+      throw new ProcessingError(`${failed.length} of ${outcomes.length} files failed`, { files: failed.map(outcome => outcome.path) });
+    }
   } catch (error: unknown) {
     handleError(error, 'file processing');
   }
 }
 
-async function analyseOrders(): Promise<void> {
+// One line per loaded file or archive member
+function describeLoad(result: ProcessResult): string {
+  if (result.error) {
+    return `❌ ${result.path}: ${result.error}`;
+  }
+  if (result.status === 'duplicate') {
+    return `⏭️  ${result.path}: already loaded by job ${result.duplicateOf?.job_id ?? '?'}`;
+  }
+  const job = result.jobId ? `job ${result.jobId} ` : '';
+  return `${result.status === 'completed' ? '✅' : '⚠️ '} ${result.path}: ${job}${result.status}, ` +
+    `${result.processed} loaded, ${result.skipped} skipped, ${result.errors} quarantined (${result.integration})`;
+}
+
+function parseConcurrency(value: string | boolean | undefined): number {
+  if (value === undefined) {
+    return 1;
+  }
+  const concurrency = Number(value);
+  if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+    throw new ValidationError(`--concurrency must be an integer from 1 to ${MAX_CONCURRENCY}`, { concurrency: value });
+  }
+  return concurrency;
+}
+
+async function validateFile(filePath: string, integrationKey?: string, options: SourceOptions = {}): Promise<void> {
+  try {
+    const report = await ingestionEngine.validateFile(filePath, integrationKey, options);
+    const percent = (count: number, total: number) => total > 0 ? `${((count / total) * 100).toFixed(1)}%` : '0.0%';
+
+    console.log(`\n🔍 VALIDATION REPORT: ${report.path} (${report.format})\n`);
+    console.log(`Integration: ${report.integration}${report.score !== undefined ? ` (header match ${percent(report.score, 1)})` : ' (explicit)'}`);
+    if (report.alreadyProcessed) {
+      Logger.warn('This file has already been processed and would be skipped');
+    }
+    console.log(`Rows: ${report.totalRows} | Valid: ${report.validRows} | Skipped: ${report.skippedRows} | Errors: ${report.errorRows}`);
+
+    if (report.skippedRows > 0) {
+      console.log('\n⏭️  Skipped rows:');
+      Object.entries(report.skipReasons).forEach(([reason, count]) => {
+        console.log(`  ${reason}: ${count}`);
+      });
+    }
+
+    if (report.errors.length > 0) {
+      console.log(`\n❌ Row errors (first ${report.errors.length}):`);
+      report.errors.forEach(error => console.log(`  line ${error.line}: ${error.message}`));
+    }
+
+    console.log('\n📋 Fields (empty / parse failures):');
+    Object.entries(report.fields).forEach(([csvField, stats]) => {
+      if (!stats.present) {
+        console.log(`  ${csvField} → ${stats.target}: column missing from file`);
+        return;
+      }
+      console.log(`  ${csvField} → ${stats.target}: ${percent(stats.empty, stats.seen)} empty, ${percent(stats.parseFailures, stats.seen)} failed (${stats.parseFailures})`);
+    });
+
+    if (Object.keys(report.orderStatuses).length > 0) {
+      console.log('\n📦 Order status:');
+      Object.entries(report.orderStatuses).forEach(([status, count]) => {
+        console.log(`  ${status}: ${count} (${percent(count, report.validRows)})`);
+      });
+    }
+
+    if (Object.keys(report.statusRules).length > 0) {
+      console.log('\n🧭 Status rules fired:');
+      Object.entries(report.statusRules).forEach(([rule, hits]) => {
+        console.log(`  ${rule}: ${hits.count} (e.g. lines ${hits.lines.join(', ')})`);
+      });
+    }
+
+    if (Object.keys(report.deliveryTypes).length > 0) {
+      console.log('\n🚚 Delivery type:');
+      Object.entries(report.deliveryTypes).forEach(([type, count]) => {
+        console.log(`  ${type}: ${count} (${percent(count, report.validRows)})`);
+      });
+    }
+
+    if (report.minOrderDatetime && report.maxOrderDatetime) {
+      const from = DateParser.format(report.minOrderDatetime, report.timezone);
+      const to = DateParser.format(report.maxOrderDatetime, report.timezone);
+      console.log(`\n📅 Order dates: ${from} → ${to} (${report.timezone})`);
+    }
+  } catch (error: unknown) {
+    handleError(error, 'file validation');
+  }
+}
+
+async function watchInbox(inbox: string, options: WatchOptions): Promise<void> {
+  try {
+    const watcher = new InboxWatcher(ingestionEngine, inbox, options);
+    const stop = () => {
+      Logger.info('Stopping after the current file...');
+      watcher.stop();
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+
+    await watcher.run();
+  } catch (error: unknown) {
+    handleError(error, 'inbox watch');
+  }
+}
+
+async function detectIntegration(filePath: string, options: SourceOptions = {}): Promise<void> {
+  try {
+    const { headers, detection } = await ingestionEngine.detectFile(filePath, options);
+
+    console.log(`\n🔎 DETECTION: ${filePath} (${headers.length} headers)\n`);
+    if (detection.candidates.length === 0) {
+      Logger.warn('No active integrations');
+      return;
+    }
+
+    detection.candidates.forEach(candidate => {
+      const total = candidate.matched.length + candidate.missing.length;
+      const mark = candidate.integration.name === detection.match?.integration.name ? '✅' : candidate.eligible ? '🟡' : '  ';
+      console.log(`${mark} ${candidate.integration.name}: ${(candidate.score * 100).toFixed(0)}% (${candidate.matched.length}/${total} columns)`);
+      candidate.matched
+        .filter(match => match.via !== 'exact')
+        .forEach(match => console.log(`     ~ ${match.column} ← "${match.header}" (${match.via})`));
+      if (candidate.missing.length > 0) {
+        console.log(`     missing: ${candidate.missing.join(', ')}`);
+      }
+      if (candidate.missingSignature.length > 0) {
+        console.log(`     missing signature header(s): ${candidate.missingSignature.join(', ')}`);
+      }
+    });
+
+    console.log('');
+    if (detection.match) {
+      Logger.success(`Detected ${detection.match.integration.name}`);
+    } else {
+      Logger.warn(`No integration chosen: ${detection.reason}`);
+      process.exitCode = 1;
+    }
+  } catch (error: unknown) {
+    handleError(error, 'integration detection');
+  }
+}
+
+async function reprocessFile(target: string, integrationKey?: string, options: LoadOptions = {}): Promise<void> {
+  try {
+    if (integrationKey && !Validators.isValidIntegrationKey(integrationKey)) {
+      throw new ValidationError('Invalid integration key', { integrationKey });
+    }
+
+    const result = await ingestionEngine.reprocess(target, integrationKey, options);
+    if (result.status === 'duplicate') {
+      Logger.warn(`Already loaded by job ${result.duplicateOf?.job_id}; pass --force to load it again`);
+      return;
+    }
+    Logger.success(`Reprocessed as job ${result.jobId} (${result.status})`);
+  } catch (error: unknown) {
+    handleError(error, 'reprocess');
+  }
+}
+
+async function rollbackJob(jobId: number): Promise<void> {
+  try {
+    const result = await db.rollbackJob(jobId);
+    const summary = (counts: Record<string, number>) =>
+      Object.entries(counts).map(([table, count]) => `${count} ${table}`).join(', ');
+
+    console.log(`\n↩️  Rolled back job ${result.jobId}`);
+    console.log(`  Deleted:  ${summary(result.deleted)}`);
+    console.log(`  Restored: ${summary(result.restored)}`);
+  } catch (error: unknown) {
+    handleError(error, 'rollback');
+  }
+}
+
+function formatHistoryValue(value: any): string {
+  if (value === null || value === undefined) return '∅';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+async function showOrderTimeline(platformOrderId: string, platformName: string | undefined, timezone: string): Promise<void> {
+  try {
+    const timelines = await db.getOrderTimelines(platformOrderId, platformName);
+    if (timelines.length === 0) {
+      Logger.warn(`No order ${platformOrderId}${platformName ? ` on ${platformName}` : ''}`);
+      return;
+    }
+
+    for (const { order, createdBy, changes } of timelines) {
+      console.log(`\n📜 ORDER ${order.platform_order_id} (${order.platform}, ${order.restaurant_name})\n`);
+      if (createdBy) {
+        console.log(`  ${DateParser.format(new Date(createdBy.created_at), timezone)}  job ${createdBy.job_id}  created from ${createdBy.file_path}`);
+      } else {
+        console.log(`  ${order.created_at ? DateParser.format(new Date(order.created_at), timezone) : 'unknown'}  created (no job recorded)`);
+      }
+
+      // Columns changed by the same job at the same moment are shown together
+      let previousHeader = '';
+      for (const change of changes) {
+        const header = `  ${DateParser.format(new Date(change.changed_at), timezone)}  ${change.job_id ? `job ${change.job_id}` : 'manual'}  `;
+        const prefix = header === previousHeader ? ' '.repeat(header.length) : header;
+        console.log(`${prefix}${change.column_name}: ${formatHistoryValue(change.old_value)} → ${formatHistoryValue(change.new_value)}`);
+        previousHeader = header;
+      }
+
+      console.log(`\n  Now: ${order.order_status}, ${order.order_value ?? '∅'}${changes.length === 0 ? ' (never changed)' : ''}`);
+    }
+  } catch (error: unknown) {
+    handleError(error, 'order timeline');
+  }
+}
+
+async function showJobChanges(jobId: number): Promise<void> {
+  try {
+    const job = await db.getJob(jobId);
+    if (!job) {
+      throw new ValidationError('Job not found', { jobId });
+    }
+    const summary = await db.getJobChangeSummary(jobId);
+
+    console.log(`\n🔀 ORDER CHANGES FOR JOB ${jobId} (${job.file_path}, ${job.status})\n`);
+    console.log(`  Inserted:  ${summary.inserted}`);
+    console.log(`  Changed:   ${summary.changed}`);
+    console.log(`  Unchanged: ${summary.unchanged}`);
+
+    const columns = Object.entries(summary.columns);
+    if (columns.length > 0) {
+      console.log('\n  Changed columns (orders):');
+      columns.forEach(([column, count]) => console.log(`    ${column.padEnd(24)} ${count}`));
+    }
+    if (summary.statusTransitions.length > 0) {
+      console.log('\n  Status transitions:');
+      summary.statusTransitions.forEach(transition =>
+        console.log(`    ${formatHistoryValue(transition.from)} → ${formatHistoryValue(transition.to)}: ${transition.count}`)
+      );
+    }
+  } catch (error: unknown) {
+    handleError(error, 'job change summary');
+  }
+}
+
+function parseJobFilters(flags: Record<string, string | boolean>): JobFilters {
+  const filters: JobFilters = { stale: flags['stale'] === true };
+
+  if (flags['status'] !== undefined) {
+    const statuses: JobStatus[] = ['pending', 'running', 'completed', 'partial', 'failed', 'cancelled', 'rolled_back'];
+    if (!statuses.includes(flags['status'] as JobStatus)) {
+      throw new ValidationError('Unknown job status', { status: flags['status'], validStatuses: statuses });
+    }
+    filters.status = flags['status'] as JobStatus;
+  }
+  if (typeof flags['integration'] === 'string') {
+    filters.integration = flags['integration'];
+  }
+  for (const flag of ['since', 'until'] as const) {
+    if (flags[flag] !== undefined) {
+      const date = new Date(String(flags[flag]));
+      if (isNaN(date.getTime())) {
+        throw new ValidationError(`--${flag} must be a date, e.g. 2024-03-01 or 2024-03-01T09:00:00Z`, { [flag]: flags[flag] });
+      }
+      filters[flag] = date;
+    }
+  }
+  if (flags['limit'] !== undefined) {
+    filters.limit = Number(flags['limit']);
+    if (!Number.isInteger(filters.limit) || filters.limit < 1) {
+      throw new ValidationError('--limit must be a positive integer', { limit: flags['limit'] });
+    }
+  }
+
+  return filters;
+}
+
+function describeJobStatus(job: IngestionJob): string {
+  if (job.stale) return `${job.status}, stale`;
+  if (job.cancel_requested_at && job.status === 'running') return 'running, cancelling';
+  return job.status;
+}
+
+async function listJobs(filters: JobFilters): Promise<void> {
+  const jobs = await db.getJobs(filters);
+  if (jobs.length === 0) {
+    Logger.info('No jobs match');
+    return;
+  }
+
+  console.log(`\n🗃️  JOBS (${jobs.length})\n`);
+  jobs.forEach(job => {
+    const version = job.integration_version ? ` v${job.integration_version}` : '';
+    const rows = `${job.processed_rows}/${job.total_rows} rows${job.error_rows > 0 ? `, ${job.error_rows} quarantined` : ''}`;
+    console.log(`  #${job.id} [${describeJobStatus(job)}] ${job.started_at?.toISOString()} ${job.integration_name}${version} | ${rows}`);
+    console.log(`     ${job.file_path}`);
+  });
+}
+
+async function showJob(jobId: number): Promise<void> {
+  const job = await db.getJobDetails(jobId);
+  if (!job) {
+    throw new ValidationError('Job not found', { jobId });
+  }
+
+  const seconds = job.started_at ? ((job.completed_at ?? job.heartbeat_at ?? new Date()).getTime() - job.started_at.getTime()) / 1000 : 0;
+  console.log(`\n🗃️  JOB ${job.id} (${describeJobStatus(job)})\n`);
+  console.log(`  File:        ${job.file_path}`);
+  console.log(`  Integration: ${job.integration_name}${job.integration_version ? ` (version ${job.integration_version})` : ''}`);
+  console.log(`  Started:     ${job.started_at?.toISOString()} by ${job.worker || 'unknown'}`);
+  if (job.completed_at) {
+    console.log(`  Finished:    ${job.completed_at.toISOString()} (${seconds.toFixed(1)}s)`);
+  } else {
+    console.log(`  Last seen:   ${job.heartbeat_at?.toISOString() ?? 'never'}${job.stale ? ' — the process appears to have stopped; cancel it to close the job' : ''}`);
+  }
+  console.log(`  Rows:        ${job.total_rows} read, ${job.processed_rows} loaded, ${job.error_rows} quarantined (${job.quarantined_rows} still pending)`);
+  if (job.reprocess_of) {
+    console.log(`  Reprocesses: job ${job.reprocess_of}`);
+  }
+  if (job.checkpoint && !job.checkpoint.finished && ['running', 'failed', 'cancelled'].includes(job.status)) {
+    console.log(`  Checkpoint:  row ${job.checkpoint.offset} committed; processing the file again resumes from there`);
+  }
+  if (job.resume_count) {
+    console.log(`  Resumed:     ${job.resume_count} time(s)`);
+  }
+  if (job.schema_drift && SchemaDriftCheck.hasDrift(job.schema_drift)) {
+    console.log(`  Drift:       ${SchemaDriftCheck.describe(job.schema_drift)}`);
+  }
+  if (job.error_message) {
+    console.log(`\n  Error: ${job.error_message}`);
+  }
+  if (job.error_context) {
+    console.log(`  Context: ${JSON.stringify(job.error_context, null, 2).replace(/\n/g, '\n  ')}`);
+  }
+}
+
+async function cancelJob(jobId: number): Promise<void> {
+  const outcome = await db.cancelJob(jobId);
+  if (outcome === 'cancelled') {
+    Logger.success(`Job ${jobId} cancelled; its process had stopped reporting progress`);
+  } else {
+    Logger.success(`Cancellation requested; job ${jobId} stops and rolls back its open transaction at its next progress update`);
+  }
+}
+
+function printLocation(location: LocationSummary): void {
+  console.log(`  #${location.id} ${location.brand_name} - ${location.name}`);
+  location.restaurants.forEach(restaurant =>
+    console.log(`     ${restaurant.platform}: ${restaurant.name} (restaurant ${restaurant.id}, ${restaurant.source})`)
+  );
+}
+
+async function matchRestaurants(threshold: number): Promise<void> {
+  try {
+    const [candidates, reviewed] = await Promise.all([db.getMatchCandidates(), db.getReviewedMatchPairs()]);
+    const proposals = RestaurantMatcher.propose(candidates, reviewed, threshold);
+    const added = await db.saveMatchProposals(proposals);
+    Logger.success(`${proposals.length} possible matches across ${candidates.length} restaurants (${added} new); review with "restaurants review"`);
+  } catch (error: unknown) {
+    handleError(error, 'restaurant matching');
+  }
+}
+
+async function reviewMatches(): Promise<void> {
+  const matches = await db.getRestaurantMatches('proposed');
+  if (matches.length === 0) {
+    Logger.info('No matches awaiting review');
+    return;
+  }
+
+  console.log(`\n🔗 PROPOSED RESTAURANT MATCHES (${matches.length})\n`);
+  matches.forEach(match => {
+    console.log(`  #${match.id} score ${match.score.toFixed(2)}`);
+    console.log(`     ${match.restaurant_platform}: ${match.restaurant_name} (restaurant ${match.restaurant_id})`);
+    console.log(`     ${match.candidate_platform}: ${match.candidate_name} (restaurant ${match.candidate_id})`);
+    console.log(`     ${match.reasons.join('; ')}`);
+  });
+  console.log('\n  Accept or reject with "restaurants accept <id>" / "restaurants reject <id>"');
+}
+
+async function reviewMatch(action: 'accept' | 'reject', matchId: number): Promise<void> {
+  try {
+    if (action === 'reject') {
+      await db.rejectMatch(matchId);
+      Logger.success(`Rejected match ${matchId}; it will not be proposed again`);
+      return;
+    }
+    const location = await db.acceptMatch(matchId);
+    Logger.success(`Accepted match ${matchId}`);
+    printLocation(location);
+  } catch (error: unknown) {
+    handleError(error, `match ${action}`);
+  }
+}
+
+async function linkRestaurant(restaurantId: number, flags: Record<string, string | boolean>): Promise<void> {
+  try {
+    let location: LocationSummary;
+    if (flags['location'] !== undefined && flags['brand'] === undefined) {
+      const locationId = Number(flags['location']);
+      if (!Number.isInteger(locationId) || locationId < 1) {
+        throw new ValidationError('--location must be a location id', { location: flags['location'] });
+      }
+      location = await db.linkRestaurant(restaurantId, { locationId });
+    } else if (typeof flags['brand'] === 'string') {
+      location = await db.linkRestaurant(restaurantId, {
+        brand: flags['brand'],
+        location: typeof flags['location'] === 'string' ? flags['location'] : undefined
+      });
+    } else {
+      throw new ValidationError('Pass --location <id> to join a location, or --brand NAME [--location NAME] to create one');
+    }
+    Logger.success(`Linked restaurant ${restaurantId}`);
+    printLocation(location);
+  } catch (error: unknown) {
+    handleError(error, 'restaurant link');
+  }
+}
+
+async function mergeRestaurants(fromId: number, intoId: number): Promise<void> {
+  try {
+    const result = await db.mergeRestaurants(fromId, intoId);
+    Logger.success(`Merged restaurant ${result.fromId} into ${result.intoId} (merge ${result.mergeId})`);
+    console.log(`  Moved: ${result.ordersMoved} orders, ${result.ratingsMoved} ratings, ${result.aliasesMoved} aliases`);
+  } catch (error: unknown) {
+    handleError(error, 'restaurant merge');
+  }
+}
+
+async function listRestaurantAliases(restaurantId: number): Promise<void> {
+  const aliases = await db.getRestaurantAliases(restaurantId);
+  if (aliases.length === 0) {
+    Logger.info(`No aliases for restaurant ${restaurantId}`);
+    return;
+  }
+
+  console.log(`\n🏷️  ALIASES FOR RESTAURANT ${restaurantId}\n`);
+  aliases.forEach(alias => {
+    const seen = `${DateParser.format(new Date(alias.first_seen_at), 'UTC').split(' ')[0]} to ${DateParser.format(new Date(alias.last_seen_at), 'UTC').split(' ')[0]}`;
+    console.log(`  ${alias.alias_type.padEnd(12)} ${alias.value} (${seen})`);
+  });
+}
+
+async function listLocations(): Promise<void> {
+  const locations = await db.getLocations();
+  if (locations.length === 0) {
+    Logger.info('No locations yet; run "restaurants match" then accept matches');
+    return;
+  }
+
+  console.log(`\n📍 LOCATIONS (${locations.length})\n`);
+  locations.forEach(printLocation);
+}
+
+async function listIntegrations(includeInactive: boolean): Promise<void> {
+  const integrations = await db.getIntegrations(includeInactive);
+  if (integrations.length === 0) {
+    Logger.info(includeInactive ? 'No integrations' : 'No active integrations (pass --all to include inactive ones)');
+    return;
+  }
+
+  console.log(`\n🧩 INTEGRATIONS (${integrations.length})\n`);
+  integrations.forEach(integration => {
+    const state = integration.is_active ? '' : ' [inactive]';
+    console.log(`  ${integration.name}${integration.version ? ` v${integration.version}` : ''}${state}`);
+    console.log(`     ${integration.platform_name} → ${integration.tables.join(', ')} | ${Object.keys(integration.field_mapping).length} fields | ${integration.timezone || 'UTC'}`);
+  });
+}
+
+function describeField(fieldMap: FieldMap): string {
+  const parts: string[] = [fieldMap.type === 'enum' ? `enum(${(fieldMap.enum_values || []).join('|')})` : fieldMap.type || 'string'];
+  if (fieldMap.derive) {
+    parts.push(`${fieldMap.derive}(${(fieldMap.sources || []).join(', ')})`);
+  }
+  if (fieldMap.transform !== undefined) {
+    const steps = TransformRegistry.steps(fieldMap.transform)
+      .map(step => step.args ? `${step.name}(${JSON.stringify(step.args)})` : step.name);
+    parts.push(steps.join(' → '));
+  }
+  if (fieldMap.format !== undefined) {
+    parts.push(`format ${[fieldMap.format].flat().join(' or ')}`);
+  }
+  if (fieldMap.locale) parts.push(`locale ${fieldMap.locale}`);
+  if (fieldMap.aliases?.length) parts.push(`also ${fieldMap.aliases.map(alias => `"${alias}"`).join(', ')}`);
+  if (fieldMap.required) parts.push('required');
+  if (fieldMap.default !== undefined) parts.push(`default ${JSON.stringify(fieldMap.default)}`);
+  return parts.join(', ');
+}
+
+async function showIntegration(name: string): Promise<void> {
+  const integration = await db.getIntegrationByName(name, true);
+  if (!integration) {
+    throw new ValidationError('Integration not found', { integration: name });
+  }
+
+  console.log(`\n🧩 ${integration.name} (${integration.is_active ? 'active' : 'inactive'}${integration.version ? `, version ${integration.version}` : ''})\n`);
+  console.log(`  Platform: ${integration.platform_name}`);
+  console.log(`  Tables:   ${integration.tables.join(', ')}`);
+  console.log(`  Timezone: ${integration.timezone || 'UTC'}`);
+  console.log(`  Numbers:  ${integration.number_locale || DEFAULT_NUMBER_LOCALE}`);
+  if (integration.signature_headers?.length) {
+    console.log(`  Requires: ${integration.signature_headers.join(', ')}`);
+  }
+  console.log(`  On drift: ${SchemaDriftCheck.policyOf(integration)}`);
+
+  console.log('\n  Field mapping:');
+  const width = Math.max(...Object.keys(integration.field_mapping).map(key => key.length));
+  Object.entries(integration.field_mapping).forEach(([key, fieldMap]) => {
+    console.log(`    ${key.padEnd(width)}  → ${fieldMap.target} (${describeField(fieldMap)})`);
+  });
+
+  if (integration.status_rules) {
+    console.log('\n  Status rules:');
+    integration.status_rules.rules.forEach((rule, index) => console.log(`    ${StatusRules.describe(rule, index)}`));
+    console.log(`    otherwise ${integration.status_rules.default}`);
+  }
+}
+
+async function exportIntegrations(names: string[], flags: Record<string, string | boolean>): Promise<void> {
+  const out = typeof flags['out'] === 'string' ? flags['out'] : undefined;
+  const format: DefinitionFormat = out
+    ? IntegrationFiles.formatFor(out, flags['format'] as string | undefined)
+    : flags['format'] === 'json' ? 'json' : 'yaml';
+
+  const integrations = flags['all'] === true
+    ? await db.getIntegrations(true)
+    : await Promise.all(names.map(async name => {
+        const integration = await db.getIntegrationByName(name, true);
+        if (!integration) {
+          throw new ValidationError('Integration not found', { integration: name });
+        }
+        return integration;
+      }));
+  if (integrations.length === 0) {
+    throw new ValidationError('Name the integrations to export, or pass --all');
+  }
+
+  const text = IntegrationFiles.serialise(
+    integrations.map(integration => IntegrationFiles.toDefinition(integration, integration.platform_name!)),
+    format
+  );
+  if (out) {
+    await fs.promises.writeFile(out, text);
+    Logger.success(`Exported ${integrations.length} integration(s) to ${out}`);
+  } else {
+    process.stdout.write(text);
+  }
+}
+
+function printChanges(changes: DefinitionChange[]): void {
+  const show = (value: any) => JSON.stringify(value);
+  changes.forEach(change => {
+    if (change.kind === 'added') console.log(`    + ${change.path}: ${show(change.after)}`);
+    else if (change.kind === 'removed') console.log(`    - ${change.path}: ${show(change.before)}`);
+    else console.log(`    ~ ${change.path}: ${show(change.before)} → ${show(change.after)}`);
+  });
+}
+
+// Stored counterpart of a definition from a file, in the same shape
+async function storedDefinition(definition: IntegrationDefinition): Promise<IntegrationDefinition | null> {
+  const stored = await db.getIntegrationByName(definition.name, true);
+  return stored ? IntegrationFiles.toDefinition(stored, stored.platform_name!) : null;
+}
+
+async function diffIntegrations(filePath: string, format?: DefinitionFormat): Promise<void> {
+  for (const definition of await IntegrationFiles.read(filePath, format)) {
+    const stored = await storedDefinition(definition);
+    const changes = stored ? IntegrationFiles.diff(stored, definition) : [];
+
+    if (!stored) {
+      console.log(`\n  ${definition.name}: new integration (${Object.keys(definition.field_mapping).length} fields)`);
+    } else if (changes.length === 0) {
+      console.log(`\n  ${definition.name}: no changes`);
+    } else {
+      console.log(`\n  ${definition.name}: ${changes.length} change(s)`);
+      printChanges(changes);
+    }
+  }
+}
+
+async function listIntegrationVersions(name: string): Promise<void> {
+  const versions = await db.getIntegrationVersions(name);
+  if (versions.length === 0) {
+    Logger.info(`No saved versions of ${name}`);
+    return;
+  }
+
+  console.log(`\n🗂️  ${name} VERSIONS (${versions.length})\n`);
+  versions.forEach(version => {
+    const current = version.is_current ? ' [current]' : '';
+    console.log(`  v${version.version}${current}  ${version.created_at.toISOString()}  ${Object.keys(version.field_mapping).length} fields | ${version.job_count} job(s)`);
+    if (version.note) {
+      console.log(`     ${version.note}`);
+    }
+  });
+}
+
+// Changes from one saved version to another, or to the current version when only one is given
+async function diffIntegrationVersions(name: string, from: number, to?: number): Promise<void> {
+  const load = async (version: number) => {
+    const integration = await db.getIntegrationVersion(name, version);
+    if (!integration) {
+      throw new ValidationError('Integration version not found', { integration: name, version });
+    }
+    return integration;
+  };
+  const before = await load(from);
+  const after = to !== undefined ? await load(to) : await db.getIntegrationByName(name, true);
+  if (!after) {
+    throw new ValidationError('Integration not found', { integration: name });
+  }
+
+  // is_active is not versioned, so it never shows up as a change
+  const definition = (integration: Integration) =>
+    IntegrationFiles.toDefinition({ ...integration, is_active: true }, integration.platform_name!);
+  const changes = IntegrationFiles.diff(definition(before), definition(after));
+  const label = `v${from} → ${to !== undefined ? `v${to}` : `current (v${after.version})`}`;
+  if (changes.length === 0) {
+    console.log(`\n  ${name} ${label}: no changes`);
+  } else {
+    console.log(`\n  ${name} ${label}: ${changes.length} change(s)`);
+    printChanges(changes);
+  }
+}
+
+async function showSchemaDrift(name: string, limit: number): Promise<void> {
+  const integration = await db.getIntegrationByName(name, true);
+  if (!integration) {
+    throw new ValidationError('Integration not found', { integration: name });
+  }
+  const jobs = await db.getSchemaDrift(name, limit);
+  if (jobs.length === 0) {
+    Logger.info(`No schema drift recorded for ${name}`);
+    return;
+  }
+
+  console.log(`\n🧭 SCHEMA DRIFT: ${name} (${jobs.length} job(s), policy ${SchemaDriftCheck.policyOf(integration)})\n`);
+  jobs.forEach(job => {
+    console.log(`  Job ${job.job_id} [${job.status}] ${job.started_at.toISOString()} ${job.file_path}`);
+    const added = new Set(job.drift.added);
+    job.drift.unmapped.forEach(column => console.log(added.has(column) ? `     + ${column} (new, unmapped)` : `     · ${column} (unmapped)`));
+    job.drift.missing.forEach(column => console.log(`     - ${column} (mapped, missing)`));
+    job.drift.empty.forEach(column => console.log(`     ∅ ${column} (mapped, always empty)`));
+  });
+}
+
+async function rollbackIntegration(name: string, version: number, note?: string): Promise<void> {
+  try {
+    await db.rollbackIntegration(name, version, note);
+    const integration = await db.getIntegrationByName(name, true);
+    Logger.success(`${name} now uses the definition from version ${version} (current version ${integration?.version})`);
+  } catch (error: unknown) {
+    handleError(error, 'integration rollback');
+  }
+}
+
+// Prints each problem; returns whether the integration is free of errors
+function printProblems(name: string, problems: MappingProblem[]): boolean {
+  const errors = IntegrationSchema.errors(problems);
+  if (problems.length === 0) {
+    console.log(`  ✅ ${name}`);
+  } else {
+    console.log(`  ${errors.length > 0 ? '❌' : '⚠️ '} ${name}: ${errors.length} error(s), ${problems.length - errors.length} warning(s)`);
+    problems.forEach(problem => console.log(`     ${problem.severity === 'error' ? 'error  ' : 'warning'} ${IntegrationSchema.format(problem)}`));
+  }
+  return errors.length === 0;
+}
+
+// Checks mapping files, or stored integrations by name, without saving anything
+async function checkIntegrations(targets: string[], format: DefinitionFormat | undefined, all: boolean): Promise<void> {
+  const checked: Array<{ name: string; problems: MappingProblem[] }> = [];
+
+  if (all) {
+    (await db.getIntegrations(true)).forEach(integration =>
+      checked.push({ name: integration.name, problems: IntegrationSchema.validate(integration) })
+    );
+  }
+  for (const target of targets) {
+    if (fs.existsSync(target)) {
+      for (const definition of await IntegrationFiles.read(target, format)) {
+        // The platform id plays no part in the checks
+        checked.push({ name: `${definition.name} (${target})`, problems: IntegrationSchema.validate(IntegrationFiles.toIntegration(definition, 0)) });
+      }
+    } else {
+      const integration = await db.getIntegrationByName(target, true);
+      if (!integration) {
+        throw new ValidationError('No mapping file or integration with that name', { target });
+      }
+      checked.push({ name: integration.name, problems: IntegrationSchema.validate(integration) });
+    }
+  }
+  if (checked.length === 0) {
+    throw new ValidationError('Name mapping files or integrations to check, or pass --all');
+  }
+
+  console.log(`\n🔎 MAPPING CHECK (${checked.length})\n`);
+  const failed = checked.filter(({ name, problems }) => !printProblems(name, problems)).length;
+  if (failed > 0) {
+    Logger.error('Mapping check failed', new ValidationError(`${failed} of ${checked.length} integration(s) have errors`));
+    process.exitCode = 1;
+  }
+}
+
+async function importIntegrations(filePath: string, format: DefinitionFormat | undefined, dryRun: boolean, note?: string): Promise<void> {
+  try {
+    const definitions = await IntegrationFiles.read(filePath, format);
+
+    for (const definition of definitions) {
+      const stored = await storedDefinition(definition);
+      const changes = stored ? IntegrationFiles.diff(stored, definition) : [];
+      if (stored && changes.length === 0) {
+        Logger.info(`${definition.name} is unchanged`);
+        continue;
+      }
+      if (dryRun) {
+        Logger.info(`${definition.name} would be ${stored ? `updated (${changes.length} change(s))` : 'created'}`);
+        printChanges(changes);
+        const problems = IntegrationSchema.validate(IntegrationFiles.toIntegration(definition, 0));
+        if (problems.length > 0) {
+          printProblems(definition.name, problems);
+        }
+        continue;
+      }
+
+      let platformId = await db.getPlatformId(definition.platform);
+      if (!platformId) {
+        platformId = await db.upsertPlatform(definition.platform);
+        Logger.info(`Created platform ${definition.platform}`);
+      }
+      await db.upsertIntegration(IntegrationFiles.toIntegration(definition, platformId), note);
+      const saved = await db.getIntegrationByName(definition.name, true);
+      Logger.success(`${stored ? 'Updated' : 'Created'} ${definition.name} (${definition.tables.join(', ')}), now version ${saved?.version}`);
+      printChanges(changes);
+    }
+  } catch (error: unknown) {
+    handleError(error, 'integration import');
+  }
+}
+
+async function listQuarantine(jobId?: number): Promise<void> {
+  const records = await db.getQuarantinedRecords({ jobId, status: 'pending' });
+
+  if (records.length === 0) {
+    Logger.info(jobId ? `No quarantined rows for job ${jobId}` : 'No quarantined rows');
+    return;
+  }
+
+  console.log(`\n🚧 QUARANTINED ROWS (${records.length})\n`);
+  records.forEach(record => {
+    console.log(`  #${record.id} job ${record.job_id} line ${record.line_number} [${record.error_code}] ${record.target_table || 'transform'}`);
+    console.log(`     ${record.error_message}`);
+  });
+}
+
+async function redriveQuarantine(jobId?: number): Promise<void> {
+  try {
+    const result = await ingestionEngine.redriveQuarantined(jobId);
+    Logger.info(`Re-drove quarantined rows`, result);
+    if (result.failed > 0 || result.skipped > 0) {
+      Logger.warn(`${result.failed + result.skipped} rows remain quarantined`);
+    } else {
+      Logger.success('All quarantined rows loaded');
+    }
+  } catch (error: unknown) {
+    handleError(error, 'quarantine re-drive');
+  }
+}
+
+async function importFxRates(filePath: string, base?: string): Promise<void> {
+  try {
+    if (!Validators.isValidFilePath(filePath)) {
+      throw new ValidationError('Invalid file path', { filePath });
+    }
+
+    const { rates, problems } = await FxRates.readFile(filePath, base?.toUpperCase());
+    if (problems.length > 0) {
+      Logger.warn(`${problems.length} rate(s) skipped:`);
+      problems.slice(0, 20).forEach(problem => console.log(`  ${problem}`));
+      if (problems.length > 20) console.log(`  ... and ${problems.length - 20} more`);
+    }
+    if (rates.length === 0) {
+      throw new ValidationError('No exchange rates to import', { filePath });
+    }
+
+    const imported = await db.importFxRates(rates, filePath);
+    const pairs = new Set(rates.map(rate => `${rate.base_currency}/${rate.quote_currency}`));
+    const dates = rates.map(rate => rate.rate_date).sort();
+    Logger.success(`Imported ${imported} rate(s) for ${pairs.size} currency pair(s), ${dates[0]} to ${dates[dates.length - 1]}`);
+  } catch (error: unknown) {
+    handleError(error, 'exchange rate import');
+  }
+}
+
+async function listFxRates(): Promise<void> {
+  const pairs = await db.getFxRatePairs();
+  if (pairs.length === 0) {
+    Logger.info('No exchange rates imported; import some with: npx tsx cli.ts fx import <file>');
+    return;
+  }
+
+  console.log(`\n💱 EXCHANGE RATES (${pairs.length} pairs)\n`);
+  pairs.forEach(pair => {
+    console.log(`  ${pair.base_currency}/${pair.quote_currency}: ${pair.days} days, ${pair.first_date} to ${pair.last_date}`);
+  });
+}
+
+async function analyseOrders(timezone: string, grouping: AnalysisGrouping = 'restaurant', currency: string = DEFAULT_REPORTING_CURRENCY): Promise<void> {
   console.log('\n📊 ORDER ANALYSIS REPORT\n');
+  console.log(`Dates and hours shown in ${timezone}; amounts in ${currency}; restaurants grouped by ${grouping}\n`);
+  const units = analysisUnits(grouping);
+  const orders = reportingOrders();
+  const money = (amount: unknown) => FxRates.format(Number(amount || 0), currency);
   
   try {
     // Basic metrics
@@ -36,88 +1056,113 @@ async function analyseOrders(): Promise<void> {
     // Orders per day
     const ordersPerDay = await db.query(`
       SELECT 
-        DATE(order_datetime) as order_date,
+        TO_CHAR(order_datetime AT TIME ZONE $1, 'YYYY-MM-DD') as order_date,
         COUNT(*) as order_count,
-        AVG(order_value) as avg_value,
-        SUM(order_value) as total_value
-      FROM orders 
+        AVG(reporting_value) as avg_value,
+        SUM(reporting_value) as total_value
+      FROM ${orders} o
       WHERE order_datetime IS NOT NULL
-      GROUP BY DATE(order_datetime)
+      GROUP BY TO_CHAR(order_datetime AT TIME ZONE $1, 'YYYY-MM-DD')
       ORDER BY order_date DESC
       LIMIT 10
-    `);
+    `, [timezone, currency]);
     
     console.log('\n📅 Orders per day (last 10 days):');
     ordersPerDay.rows.forEach((row: any) => {
-      console.log(`  ${row.order_date}: ${row.order_count} orders, £${Number(row.avg_value || 0).toFixed(2)} avg, £${Number(row.total_value || 0).toFixed(2)} total`);
+      console.log(`  ${row.order_date}: ${row.order_count} orders, ${money(row.avg_value)} avg, ${money(row.total_value)} total`);
     });
 
     // Average order value
     const avgOrderValue = await db.query(`
       SELECT 
-        AVG(order_value) as avg_order_value,
+        AVG(reporting_value) as avg_order_value,
         COUNT(*) as total_orders,
-        SUM(order_value) as total_revenue
-      FROM orders 
+        SUM(reporting_value) as total_revenue
+      FROM ${orders} o
       WHERE order_value IS NOT NULL
-    `);
+    `, [timezone, currency]);
     
-    console.log(`\n💰 Overall average order value: £${Number(avgOrderValue.rows[0]?.avg_order_value || 0).toFixed(2)}`);
+    console.log(`\n💰 Overall average order value: ${money(avgOrderValue.rows[0]?.avg_order_value)}`);
     console.log(`📦 Total orders: ${avgOrderValue.rows[0]?.total_orders || 0}`);
-    console.log(`💵 Total revenue: £${Number(avgOrderValue.rows[0]?.total_revenue || 0).toFixed(2)}`);
+    console.log(`💵 Total revenue: ${money(avgOrderValue.rows[0]?.total_revenue)}`);
+
+    // Orders left out of every amount above and below for want of a rate
+    const unconverted = await db.query(`
+      SELECT 
+        currency_code,
+        COUNT(*) as order_count,
+        SUM(order_value) as order_value,
+        TO_CHAR(MIN(order_datetime AT TIME ZONE $1), 'YYYY-MM-DD') as first_date,
+        TO_CHAR(MAX(order_datetime AT TIME ZONE $1), 'YYYY-MM-DD') as last_date
+      FROM ${orders} o
+      WHERE order_value IS NOT NULL AND reporting_value IS NULL
+      GROUP BY currency_code
+      ORDER BY currency_code
+    `, [timezone, currency]);
+
+    if (unconverted.rows.length > 0) {
+      console.log(`\n⚠️  Orders with no exchange rate to ${currency}, left out of revenue and averages:`);
+      unconverted.rows.forEach((row: any) => {
+        const dates = row.first_date ? `${row.first_date} to ${row.last_date}` : 'no order date';
+        console.log(`  ${row.currency_code}: ${row.order_count} orders, ${FxRates.format(Number(row.order_value), row.currency_code)} (${dates})`);
+      });
+      console.log(`  Import rates with: npx tsx cli.ts fx import <file>`);
+    }
 
     // Restaurant performance
     console.log('\n=== RESTAURANT PERFORMANCE ===');
     
     const restaurantRevenue = await db.query(`
       SELECT 
-        r.name as restaurant_name,
-        p.name as platform,
+        u.unit_name as restaurant_name,
+        STRING_AGG(DISTINCT p.name, ', ') as platform,
         COUNT(o.id) as order_count,
-        COALESCE(SUM(o.order_value), 0) as total_revenue,
-        COALESCE(AVG(o.order_value), 0) as avg_order_value,
+        COALESCE(SUM(o.reporting_value), 0) as total_revenue,
+        COALESCE(AVG(o.reporting_value), 0) as avg_order_value,
         ROUND(
           (COUNT(CASE WHEN o.order_status IN ('REJECTED', 'REJECTED_CUSTOMER', 'REJECTED_RESTAURANT', 'CANCELLED_CUSTOMER', 'CANCELLED_RESTAURANT') THEN 1 END)::decimal / COUNT(o.id)) * 100, 2
         ) as failure_rate_percent
       FROM restaurants r
+      JOIN ${units} u ON u.restaurant_id = r.id
       JOIN platforms p ON r.platform_id = p.id
-      LEFT JOIN orders o ON r.id = o.restaurant_id
+      LEFT JOIN ${orders} o ON r.id = o.restaurant_id
       WHERE r.id IN (SELECT restaurant_id FROM orders)
-      GROUP BY r.id, r.name, p.name
+      GROUP BY u.unit_id, u.unit_name
       ORDER BY total_revenue DESC
       LIMIT 10
-    `);
+    `, [timezone, currency]);
 
     console.log('\n🏆 Top 10 restaurants by revenue:');
     restaurantRevenue.rows.forEach((row: any, i: number) => {
       console.log(`  ${i+1}. ${row.restaurant_name} (${row.platform})`);
-      console.log(`     Revenue: £${Number(row.total_revenue).toFixed(2)} | Orders: ${row.order_count} | Avg: £${Number(row.avg_order_value).toFixed(2)} | Failure: ${row.failure_rate_percent}%`);
+      console.log(`     Revenue: ${money(row.total_revenue)} | Orders: ${row.order_count} | Avg: ${money(row.avg_order_value)} | Failure: ${row.failure_rate_percent}%`);
     });
 
     // Worst performing restaurants  
     const worstPerformers = await db.query(`
       SELECT 
-        r.name as restaurant_name,
-        p.name as platform,
+        u.unit_name as restaurant_name,
+        STRING_AGG(DISTINCT p.name, ', ') as platform,
         COUNT(o.id) as order_count,
-        COALESCE(SUM(o.order_value), 0) as total_revenue,
+        COALESCE(SUM(o.reporting_value), 0) as total_revenue,
         ROUND(
           (COUNT(CASE WHEN o.order_status IN ('REJECTED', 'REJECTED_CUSTOMER', 'REJECTED_RESTAURANT', 'CANCELLED_CUSTOMER', 'CANCELLED_RESTAURANT') THEN 1 END)::decimal / COUNT(o.id)) * 100, 2
         ) as failure_rate_percent
       FROM restaurants r
+      JOIN ${units} u ON u.restaurant_id = r.id
       JOIN platforms p ON r.platform_id = p.id
-      LEFT JOIN orders o ON r.id = o.restaurant_id
+      LEFT JOIN ${orders} o ON r.id = o.restaurant_id
       WHERE r.id IN (SELECT restaurant_id FROM orders)
-      GROUP BY r.id, r.name, p.name
+      GROUP BY u.unit_id, u.unit_name
       HAVING COUNT(o.id) >= 5
       ORDER BY failure_rate_percent DESC, total_revenue ASC
       LIMIT 5
-    `);
+    `, [timezone, currency]);
 
     console.log('\n🚨 Restaurants with highest failure rates (min 5 orders):');
     worstPerformers.rows.forEach((row: any, i: number) => {
       console.log(`  ${i+1}. ${row.restaurant_name} (${row.platform})`);
-      console.log(`     Failure Rate: ${row.failure_rate_percent}% | Revenue: £${Number(row.total_revenue).toFixed(2)} | Orders: ${row.order_count}`);
+      console.log(`     Failure Rate: ${row.failure_rate_percent}% | Revenue: ${money(row.total_revenue)} | Orders: ${row.order_count}`);
     });
 
     // Platform analysis
@@ -128,22 +1173,22 @@ async function analyseOrders(): Promise<void> {
         p.name as platform,
         COUNT(r.id) as restaurant_count,
         COUNT(o.id) as order_count,
-        COALESCE(AVG(o.order_value), 0) as avg_order_value,
-        COALESCE(SUM(o.order_value), 0) as total_revenue,
+        COALESCE(AVG(o.reporting_value), 0) as avg_order_value,
+        COALESCE(SUM(o.reporting_value), 0) as total_revenue,
         ROUND(
           (COUNT(CASE WHEN o.order_status IN ('REJECTED', 'REJECTED_CUSTOMER', 'REJECTED_RESTAURANT', 'CANCELLED_CUSTOMER', 'CANCELLED_RESTAURANT') THEN 1 END)::decimal / NULLIF(COUNT(o.id), 0)) * 100, 2
         ) as platform_failure_rate
       FROM platforms p
       LEFT JOIN restaurants r ON p.id = r.platform_id
-      LEFT JOIN orders o ON r.id = o.restaurant_id
+      LEFT JOIN ${orders} o ON r.id = o.restaurant_id
       GROUP BY p.id, p.name
       ORDER BY total_revenue DESC
-    `);
+    `, [timezone, currency]);
 
     platformStats.rows.forEach((row: any) => {
       console.log(`\n📱 ${row.platform}:`);
       console.log(`   Restaurants: ${row.restaurant_count} | Orders: ${row.order_count}`);
-      console.log(`   Revenue: £${Number(row.total_revenue).toFixed(2)} | Avg Order: £${Number(row.avg_order_value).toFixed(2)}`);
+      console.log(`   Revenue: ${money(row.total_revenue)} | Avg Order: ${money(row.avg_order_value)}`);
       console.log(`   Platform Failure Rate: ${row.platform_failure_rate || 0}%`);
     });
 
@@ -156,44 +1201,47 @@ async function analyseOrders(): Promise<void> {
         r.name as restaurant_name,
         p.name as platform,
         o.order_value,
+        o.currency_code,
+        o.reporting_value,
         o.order_datetime,
         o.order_status
-      FROM orders o
+      FROM ${orders} o
       JOIN restaurants r ON o.restaurant_id = r.id
       JOIN platforms p ON r.platform_id = p.id
-      WHERE o.order_value > (
-        SELECT AVG(order_value) + 2 * STDDEV(order_value) 
-        FROM orders 
-        WHERE order_value IS NOT NULL
+      WHERE o.reporting_value > (
+        SELECT AVG(reporting_value) + 2 * STDDEV(reporting_value) 
+        FROM ${orders} o
+        WHERE reporting_value IS NOT NULL
       )
-      ORDER BY o.order_value DESC
+      ORDER BY o.reporting_value DESC
       LIMIT 5
-    `);
+    `, [timezone, currency]);
 
     if (outliers.rows.length > 0) {
       console.log('\n💎 High-value order outliers (>2 std dev):');
       outliers.rows.forEach((row: any) => {
-        console.log(`  ${row.restaurant_name} (${row.platform}): £${Number(row.order_value).toFixed(2)} on ${row.order_datetime?.toISOString().split('T')[0]} - ${row.order_status}`);
+        const original = row.currency_code !== currency ? ` (${FxRates.format(Number(row.order_value), row.currency_code)})` : '';
+        console.log(`  ${row.restaurant_name} (${row.platform}): ${money(row.reporting_value)}${original} on ${row.order_datetime ? DateParser.format(row.order_datetime, timezone).split(' ')[0] : 'unknown date'} - ${row.order_status}`);
       });
     }
 
     // Time-based patterns
     const timePatterns = await db.query(`
       SELECT 
-        EXTRACT(hour FROM order_datetime) as hour,
+        EXTRACT(hour FROM order_datetime AT TIME ZONE $1) as hour,
         COUNT(*) as order_count,
-        AVG(order_value) as avg_value
-      FROM orders 
+        AVG(reporting_value) as avg_value
+      FROM ${orders} o
       WHERE order_datetime IS NOT NULL
-      GROUP BY EXTRACT(hour FROM order_datetime)
+      GROUP BY EXTRACT(hour FROM order_datetime AT TIME ZONE $1)
       ORDER BY hour
-    `);
+    `, [timezone, currency]);
 
     console.log('\n⏰ Hourly order patterns:');
     timePatterns.rows.forEach((row: any) => {
       const hour = row.hour < 10 ? `0${row.hour}` : row.hour;
       const bar = '█'.repeat(Math.round(row.order_count / 20));
-      console.log(`  ${hour}:00 ${bar} ${row.order_count} orders (£${Number(row.avg_value || 0).toFixed(2)} avg)`);
+      console.log(`  ${hour}:00 ${bar} ${row.order_count} orders (${money(row.avg_value)} avg)`);
     });
 
     // Problem areas recommendations
@@ -201,17 +1249,18 @@ async function analyseOrders(): Promise<void> {
     
     const problemAreas = await db.query(`
       SELECT 
-        r.name as restaurant_name,
-        p.name as platform,
+        u.unit_name as restaurant_name,
+        STRING_AGG(DISTINCT p.name, ', ') as platform,
         COUNT(o.id) as total_orders,
         COUNT(CASE WHEN o.order_status IN ('REJECTED', 'REJECTED_CUSTOMER', 'REJECTED_RESTAURANT') THEN 1 END) as failed_orders,
         AVG(o.restaurant_wait_time_minutes) as avg_wait_time,
         AVG(o.prep_time_minutes) as avg_prep_time
       FROM restaurants r
+      JOIN ${units} u ON u.restaurant_id = r.id
       JOIN platforms p ON r.platform_id = p.id
       LEFT JOIN orders o ON r.id = o.restaurant_id
       WHERE r.id IN (SELECT restaurant_id FROM orders)
-      GROUP BY r.id, r.name, p.name
+      GROUP BY u.unit_id, u.unit_name
       HAVING COUNT(o.id) >= 3 AND 
              (COUNT(CASE WHEN o.order_status IN ('REJECTED', 'REJECTED_CUSTOMER', 'REJECTED_RESTAURANT') THEN 1 END)::decimal / COUNT(o.id)) > 0.2
       ORDER BY (COUNT(CASE WHEN o.order_status IN ('REJECTED', 'REJECTED_CUSTOMER', 'REJECTED_RESTAURANT') THEN 1 END)::decimal / COUNT(o.id)) DESC
@@ -263,15 +1312,16 @@ async function analyseOrders(): Promise<void> {
     // Restaurant ratings (top and bottom)
     const restaurantRatings = await db.query(`
       SELECT 
-        r.name as restaurant_name,
-        p.name as platform,
+        u.unit_name as restaurant_name,
+        STRING_AGG(DISTINCT p.name, ', ') as platform,
         COUNT(rt.id) as review_count,
         AVG(rt.rating_value) as avg_rating
       FROM restaurants r
+      JOIN ${units} u ON u.restaurant_id = r.id
       JOIN platforms p ON r.platform_id = p.id
       JOIN ratings rt ON r.id = rt.restaurant_id
       WHERE rt.rating_value IS NOT NULL
-      GROUP BY r.id, r.name, p.name
+      GROUP BY u.unit_id, u.unit_name
       HAVING COUNT(rt.id) >= 3
       ORDER BY AVG(rt.rating_value) DESC, COUNT(rt.id) DESC
       LIMIT 20
@@ -377,7 +1427,7 @@ async function analyseOrders(): Promise<void> {
       console.log('\n🕒 Recent Reviews (Last 5):');
       recentReviews.rows.forEach((row: any, i: number) => {
         const stars = '⭐'.repeat(Math.round(row.rating_value));
-        const date = row.rating_date?.toISOString().split('T')[0] || 'Unknown date';
+        const date = row.rating_date ? DateParser.format(row.rating_date, timezone).split(' ')[0] : 'Unknown date';
         console.log(`  ${i+1}. ${row.restaurant_name} (${row.platform}) - ${date}`);
         console.log(`     ${stars} ${Number(row.rating_value).toFixed(1)}/5.0`);
         if (row.comment) {
@@ -395,7 +1445,7 @@ async function analyseOrders(): Promise<void> {
 
 async function main() {
   try {
-    const args = process.argv.slice(2);
+    const { positional: args, flags } = parseArgs(process.argv.slice(2));
     const command = args[0];
 
     if (!command) {
@@ -403,36 +1453,313 @@ async function main() {
 📊 Order Data Management CLI
 
 Usage:
-  npx tsx cli.ts process <file> [integration]  - Process a CSV file
+  npx tsx cli.ts process <file> [integration]  - Process a CSV, XLSX, JSON or NDJSON file, gzipped or in a zip archive
+  npx tsx cli.ts process <file|pattern...> [--integration NAME]
+                                                - Process several files; quoted patterns take *, ?, ** and {a,b}
+      [--concurrency N]                         - Files loaded at once (default 1, at most ${MAX_CONCURRENCY})
+      [--batch-size N]                          - Rows per multi-row upsert (default 500)
+      [--transaction file|batch]                - Commit once per file (default) or per batch
+      [--restart]                               - Start over instead of resuming an interrupted job for the file
+      [--format csv|xlsx|json|ndjson]           - Override format detection
+      [--sheet NAME] [--header-row N]           - XLSX worksheet and 1-based header row
+      [--member NAME]                           - Only this file of a zip archive
+  npx tsx cli.ts validate <file> [integration] - Dry-run a file and report what would load (same format flags)
+  npx tsx cli.ts detect <file>                 - Score every active integration against a file's headers
+  npx tsx cli.ts watch <dir>                    - Load files dropped into <dir>, moving each to processed/, failed/ or duplicate/
+      [--interval S] [--settle S]               - Scan every S seconds (default 5); load once unchanged for S seconds (default 10)
+      [--log FILE]                              - Per-file summary log (default <dir>/watch.log); also takes the process flags
+  npx tsx cli.ts reprocess <jobId|file> [integration] --force [--version N]
+                                                - Load a file again through the current (or a saved) integration version, linked to the earlier job
+  npx tsx cli.ts rollback <jobId>               - Delete or restore every row a job wrote
+  npx tsx cli.ts timeline <orderId>             - Show how an order's columns changed across loads
+      [--platform NAME] [--timezone ZONE]       - Restrict to one platform; zone for timestamps
+  npx tsx cli.ts changes <jobId>                - Count orders a job inserted, changed or left unchanged
+  npx tsx cli.ts jobs list                      - List recent jobs, newest first
+      [--status S] [--integration NAME]         - Only jobs with this status / integration
+      [--since DATE] [--until DATE]             - Only jobs started in this range
+      [--stale] [--limit N]                     - Only running jobs whose process stopped reporting; at most N (default 20)
+  npx tsx cli.ts jobs show <jobId>              - Show a job's progress, timings, drift and error details
+  npx tsx cli.ts jobs cancel <jobId>            - Stop a running job, or close one whose process has died
+  npx tsx cli.ts restaurants match [--threshold 0.8]
+                                                - Propose links between the same site's restaurants on different platforms
+  npx tsx cli.ts restaurants review             - List proposed matches
+  npx tsx cli.ts restaurants accept|reject <matchId>
+                                                - Link both restaurants to one location, or never propose the pair again
+  npx tsx cli.ts restaurants link <restaurantId> --location <id> | --brand NAME [--location NAME]
+                                                - Link a restaurant to a location by hand, creating it if needed
+  npx tsx cli.ts restaurants locations          - List brands, locations and their platform restaurants
+  npx tsx cli.ts restaurants aliases <restaurantId>
+                                                - Names and external ids a restaurant has been seen with
+  npx tsx cli.ts restaurants merge <fromId> <intoId>
+                                                - Fold a duplicate restaurant into another on the same platform
+  npx tsx cli.ts integrations list [--all]      - List active integrations, or all of them
+  npx tsx cli.ts integrations show <name>       - Show an integration's field mapping, tables and status
+  npx tsx cli.ts integrations export <name...>|--all [--out FILE] [--format json|yaml]
+                                                - Write mapping definitions to a file or stdout (YAML by default)
+  npx tsx cli.ts integrations import <file> [--dry-run] [--note TEXT]
+                                                - Create or update integrations from a JSON/YAML mapping file
+  npx tsx cli.ts integrations diff <file>       - Compare a mapping file with what is stored
+  npx tsx cli.ts integrations diff <name> <v1> [v2]
+                                                - Compare two saved versions, or one with the current version
+  npx tsx cli.ts integrations versions <name>   - List an integration's saved versions and the jobs using each
+  npx tsx cli.ts integrations drift <name> [--limit N]
+                                                - List jobs whose files added, dropped or emptied columns
+  npx tsx cli.ts integrations rollback <name> <version> [--note TEXT]
+                                                - Make an earlier version current again, saved as a new version
+  npx tsx cli.ts integrations check <file|name...>|--all
+                                                - Validate mappings against the target columns without saving
+  npx tsx cli.ts integrations activate|deactivate <name>
   npx tsx cli.ts analyse                        - Run comprehensive analysis
+      [--timezone ZONE]                         - Reporting timezone (default $REPORTING_TIMEZONE or Europe/London)
+      [--group-by restaurant|location|brand]    - Report per platform restaurant (default), location or brand
+      [--currency CODE]                         - Convert amounts to this currency (default $REPORTING_CURRENCY or GBP)
+  npx tsx cli.ts fx import <file> [--base CODE] - Load daily exchange rates: date,base,quote,rate rows, or one column per currency against --base
+  npx tsx cli.ts fx list                        - Currency pairs with imported rates and the dates they cover
+  npx tsx cli.ts quarantine list [jobId]        - List rows quarantined during loading
+  npx tsx cli.ts quarantine retry [jobId]       - Re-drive quarantined rows through the current mapping
 
 Examples:
   npx tsx cli.ts process "data.csv"
   npx tsx cli.ts process "data.csv" deliveryplatform3_total_order  
-  npx tsx cli.ts analyse
+  npx tsx cli.ts process "data.csv" --batch-size 2000 --transaction batch
+  npx tsx cli.ts process "exports/**/*.{csv,xlsx}" --concurrency 4
+  npx tsx cli.ts process "march-exports.zip"
+  npx tsx cli.ts validate "data.csv"
+  npx tsx cli.ts detect "data.csv"
+  npx tsx cli.ts jobs list --status failed --since 2024-03-01
+  npx tsx cli.ts process "export.xlsx" --sheet Orders --header-row 3
+  npx tsx cli.ts watch ./inbox --settle 30
+  npx tsx cli.ts reprocess 42 --force
+  npx tsx cli.ts rollback 42
+  npx tsx cli.ts timeline 1234567 --platform DeliveryPlatform1
+  npx tsx cli.ts changes 42
+  npx tsx cli.ts restaurants match
+  npx tsx cli.ts restaurants link 17 --brand "Pizza Co" --location Soho
+  npx tsx cli.ts restaurants merge 23 17
+  npx tsx cli.ts analyse --group-by location
+  npx tsx cli.ts fx import eurofxref-hist.csv --base EUR
+  npx tsx cli.ts analyse --currency EUR
+  npx tsx cli.ts integrations export --all --out mappings/all.yaml
+  npx tsx cli.ts integrations diff mappings/new_platform.yaml
+  npx tsx cli.ts integrations check mappings/*.yaml
+  npx tsx cli.ts integrations versions deliveryplatform3_total_order
+  npx tsx cli.ts integrations rollback deliveryplatform3_total_order 2 --note "Revert date format"
+  npx tsx cli.ts quarantine retry 42
 `);
       process.exit(1);
     }
 
     // Validate command
     if (!Validators.isValidCommand(command)) {
-      throw new ValidationError('Invalid command', { command, validCommands: ['process', 'analyse'] });
+      throw new ValidationError('Invalid command', { command, validCommands: ['process', 'validate', 'detect', 'watch', 'reprocess', 'rollback', 'timeline', 'changes', 'jobs', 'restaurants', 'integrations', 'analyse', 'fx', 'quarantine'] });
     }
 
     switch (command) {
       case 'process':
-        const filePath = args[1];
-        const integrationKey = args[2];
+        const filePatterns = args.slice(1);
+        let integrationKey = typeof flags['integration'] === 'string' ? flags['integration'] : undefined;
+        
+        // "process <file> <integration>": a last argument that is neither a file nor a pattern names the integration
+        const lastArgument = filePatterns[filePatterns.length - 1];
+        if (!integrationKey && filePatterns.length > 1 && !fs.existsSync(lastArgument) && !FilePatterns.isPattern(lastArgument)) {
+          integrationKey = filePatterns.pop();
+        }
         
-        if (!filePath) {
+        if (filePatterns.length === 0) {
           throw new ValidationError('File path is required for process command');
         }
         
-        await processFile(filePath, integrationKey);
+        await processFiles(filePatterns, integrationKey, parseLoadOptions(flags), parseConcurrency(flags['concurrency']));
+        break;
+        
+      case 'validate':
+        if (!args[1]) {
+          throw new ValidationError('File path is required for validate command');
+        }
+        
+        await validateFile(args[1], args[2], parseSourceOptions(flags));
+        break;
+        
+      case 'detect':
+        if (!args[1]) {
+          throw new ValidationError('File path is required for detect command');
+        }
+        
+        await detectIntegration(args[1], parseSourceOptions(flags));
+        break;
+        
+      case 'watch':
+        if (!args[1]) {
+          throw new ValidationError('Directory is required for watch command');
+        }
+        
+        await watchInbox(args[1], parseWatchOptions(flags));
+        break;
+        
+      case 'reprocess':
+        if (!args[1]) {
+          throw new ValidationError('Job ID or file path is required for reprocess command');
+        }
+        
+        await reprocessFile(args[1], args[2], {
+          ...parseLoadOptions(flags),
+          force: flags['force'] === true,
+          integrationVersion: flags['version'] !== undefined ? parseVersion(flags['version']) : undefined
+        });
+        break;
+        
+      case 'rollback':
+        const rollbackJobId = Number(args[1]);
+        if (!Number.isInteger(rollbackJobId) || rollbackJobId < 1) {
+          throw new ValidationError('Job ID is required for rollback command', { jobId: args[1] });
+        }
+        
+        await rollbackJob(rollbackJobId);
+        break;
+        
+      case 'timeline':
+        if (!args[1]) {
+          throw new ValidationError('Order ID is required for timeline command');
+        }
+        
+        await showOrderTimeline(args[1], typeof flags['platform'] === 'string' ? flags['platform'] : undefined, parseReportingTimezone(flags));
+        break;
+        
+      case 'changes':
+        const changesJobId = Number(args[1]);
+        if (!Number.isInteger(changesJobId) || changesJobId < 1) {
+          throw new ValidationError('Job ID is required for changes command', { jobId: args[1] });
+        }
+        
+        await showJobChanges(changesJobId);
+        break;
+        
+      case 'jobs':
+        const jobAction = args[1];
+        const jobArgument = Number(args[2]);
+        
+        if (jobAction === 'list') {
+          await listJobs(parseJobFilters(flags));
+        } else if (jobAction === 'show' || jobAction === 'cancel') {
+          if (!Number.isInteger(jobArgument) || jobArgument < 1) {
+            throw new ValidationError(`Job ID is required for jobs ${jobAction}`, { jobId: args[2] });
+          }
+          await (jobAction === 'show' ? showJob(jobArgument) : cancelJob(jobArgument));
+        } else {
+          throw new ValidationError('Unknown jobs action', { action: jobAction, validActions: ['list', 'show', 'cancel'] });
+        }
+        break;
+        
+      case 'restaurants':
+        const restaurantAction = args[1];
+        const targetId = Number(args[2]);
+        const needsId = ['accept', 'reject', 'link', 'aliases', 'merge'].includes(restaurantAction);
+        
+        if (needsId && (!Number.isInteger(targetId) || targetId < 1)) {
+          throw new ValidationError(`An id is required for restaurants ${restaurantAction}`, { id: args[2] });
+        }
+        
+        if (restaurantAction === 'match') {
+          const threshold = flags['threshold'] !== undefined ? Number(flags['threshold']) : DEFAULT_MATCH_THRESHOLD;
+          if (!(threshold > 0 && threshold <= 1)) {
+            throw new ValidationError('--threshold must be between 0 and 1', { threshold: flags['threshold'] });
+          }
+          await matchRestaurants(threshold);
+        } else if (restaurantAction === 'review') {
+          await reviewMatches();
+        } else if (restaurantAction === 'accept' || restaurantAction === 'reject') {
+          await reviewMatch(restaurantAction, targetId);
+        } else if (restaurantAction === 'link') {
+          await linkRestaurant(targetId, flags);
+        } else if (restaurantAction === 'locations') {
+          await listLocations();
+        } else if (restaurantAction === 'aliases') {
+          await listRestaurantAliases(targetId);
+        } else if (restaurantAction === 'merge') {
+          const intoId = Number(args[3]);
+          if (!Number.isInteger(intoId) || intoId < 1) {
+            throw new ValidationError('Usage: restaurants merge <fromId> <intoId>', { into: args[3] });
+          }
+          await mergeRestaurants(targetId, intoId);
+        } else {
+          throw new ValidationError('Unknown restaurants action', { action: restaurantAction, validActions: ['match', 'review', 'accept', 'reject', 'link', 'locations', 'aliases', 'merge'] });
+        }
+        break;
+        
+      case 'integrations':
+        const integrationAction = args[1];
+        const definitionFormat = flags['format'] !== undefined ? IntegrationFiles.formatFor('', flags['format'] as string) : undefined;
+        
+        if (['show', 'activate', 'deactivate', 'import', 'diff', 'versions', 'rollback', 'drift'].includes(integrationAction) && !args[2]) {
+          throw new ValidationError(`integrations ${integrationAction} needs ${['import', 'diff'].includes(integrationAction) ? 'a mapping file' : 'an integration name'}`);
+        }
+        
+        if (integrationAction === 'list') {
+          await listIntegrations(flags['all'] === true);
+        } else if (integrationAction === 'show') {
+          await showIntegration(args[2]);
+        } else if (integrationAction === 'export') {
+          await exportIntegrations(args.slice(2), flags);
+        } else if (integrationAction === 'import') {
+          await importIntegrations(args[2], definitionFormat, flags['dry-run'] === true, typeof flags['note'] === 'string' ? flags['note'] : undefined);
+        } else if (integrationAction === 'check') {
+          await checkIntegrations(args.slice(2), definitionFormat, flags['all'] === true);
+        } else if (integrationAction === 'diff' && fs.existsSync(args[2])) {
+          await diffIntegrations(args[2], definitionFormat);
+        } else if (integrationAction === 'diff') {
+          await diffIntegrationVersions(args[2], parseVersion(args[3]), args[4] !== undefined ? parseVersion(args[4]) : undefined);
+        } else if (integrationAction === 'drift') {
+          const limit = flags['limit'] !== undefined ? Number(flags['limit']) : 20;
+          if (!Number.isInteger(limit) || limit < 1) {
+            throw new ValidationError('--limit must be a positive integer', { limit: flags['limit'] });
+          }
+          await showSchemaDrift(args[2], limit);
+        } else if (integrationAction === 'versions') {
+          await listIntegrationVersions(args[2]);
+        } else if (integrationAction === 'rollback') {
+          await rollbackIntegration(args[2], parseVersion(args[3]), typeof flags['note'] === 'string' ? flags['note'] : undefined);
+        } else if (integrationAction === 'activate' || integrationAction === 'deactivate') {
+          await db.setIntegrationActive(args[2], integrationAction === 'activate');
+          Logger.success(`${args[2]} ${integrationAction}d`);
+        } else {
+          throw new ValidationError('Unknown integrations action', { action: integrationAction, validActions: ['list', 'show', 'export', 'import', 'diff', 'check', 'versions', 'rollback', 'drift', 'activate', 'deactivate'] });
+        }
         break;
         
       case 'analyse':
-        await analyseOrders();
+        await analyseOrders(parseReportingTimezone(flags), parseAnalysisGrouping(flags), parseReportingCurrency(flags));
+        break;
+        
+      case 'fx':
+        const fxAction = args[1];
+        
+        if (fxAction === 'import') {
+          if (!args[2]) {
+            throw new ValidationError('Rates file is required for fx import');
+          }
+          await importFxRates(args[2], typeof flags['base'] === 'string' ? flags['base'] : undefined);
+        } else if (fxAction === 'list') {
+          await listFxRates();
+        } else {
+          throw new ValidationError('Unknown fx action', { action: fxAction, validActions: ['import', 'list'] });
+        }
+        break;
+        
+      case 'quarantine':
+        const action = args[1];
+        const jobId = args[2] ? parseInt(args[2]) : undefined;
+        
+        if (jobId !== undefined && isNaN(jobId)) {
+          throw new ValidationError('Job ID must be a number', { jobId: args[2] });
+        }
+        
+        if (action === 'list') {
+          await listQuarantine(jobId);
+        } else if (action === 'retry') {
+          await redriveQuarantine(jobId);
+        } else {
+          throw new ValidationError('Unknown quarantine action', { action, validActions: ['list', 'retry'] });
+        }
         break;
         
       default:
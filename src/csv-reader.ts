@@ -0,0 +1,184 @@
+import { InputFile, InputFiles } from './input-files.js';
+import { ProcessingError } from './utils.js';
+
+export type CSVEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface CSVDialect {
+  delimiter: string;
+  encoding: CSVEncoding;
+  hasBom: boolean;
+}
+
+export interface CSVRecord {
+  fields: string[];
+  // Physical line on which the record starts (1-based), so multi-line fields don't skew it
+  line: number;
+}
+
+export interface CSVReaderOptions {
+  delimiter?: string;
+  encoding?: CSVEncoding;
+}
+
+const SAMPLE_BYTES = 64 * 1024;
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Streaming RFC 4180 reader. Quoted fields may contain delimiters, escaped quotes
+ * and line breaks. Encoding and delimiter are sniffed from the start of the file
+ * unless given explicitly.
+ */
+export class CSVReader {
+  private dialect?: CSVDialect;
+
+  constructor(private file: InputFile, private options: CSVReaderOptions = {}) {}
+
+  async detectDialect(): Promise<CSVDialect> {
+    if (this.dialect) return this.dialect;
+
+    const sample = await InputFiles.sample(this.file, SAMPLE_BYTES);
+    const detected = CSVReader.detectEncoding(sample);
+    const encoding = this.options.encoding || detected.encoding;
+    const text = new TextDecoder(encoding).decode(sample, { stream: true });
+    const delimiter = this.options.delimiter || CSVReader.detectDelimiter(text);
+
+    this.dialect = { delimiter, encoding, hasBom: detected.hasBom };
+    return this.dialect;
+  }
+
+  async *records(): AsyncGenerator<CSVRecord> {
+    const { delimiter, encoding } = await this.detectDialect();
+    // TextDecoder strips a leading BOM for us (ignoreBOM defaults to false)
+    const decoder = new TextDecoder(encoding);
+
+    let fields: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let quotePending = false;
+    let line = 1;
+    let recordLine = 1;
+    let prev = '';
+
+    for await (const chunk of this.file.open()) {
+      const text = decoder.decode(chunk as Buffer, { stream: true });
+
+      for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+          if (quotePending) {
+            quotePending = false;
+            if (char === '"') {
+              field += '"';
+              prev = char;
+              continue;
+            }
+            // The pending quote closed the field; handle this char as unquoted
+            inQuotes = false;
+          } else {
+            if (char === '"') {
+              quotePending = true;
+            } else {
+              field += char;
+              if (char === '\r' || (char === '\n' && prev !== '\r')) line++;
+            }
+            prev = char;
+            continue;
+          }
+        }
+
+        if (char === '"' && field === '') {
+          inQuotes = true;
+        } else if (char === delimiter) {
+          fields.push(field);
+          field = '';
+        } else if (char === '\r' || char === '\n') {
+          if (!(char === '\n' && prev === '\r')) {
+            fields.push(field);
+            if (fields.length > 1 || fields[0] !== '') {
+              yield { fields, line: recordLine };
+            }
+            fields = [];
+            field = '';
+            line++;
+            recordLine = line;
+          }
+        } else {
+          field += char;
+        }
+        prev = char;
+      }
+    }
+
+    if (inQuotes && !quotePending) {
+      throw new ProcessingError('Unterminated quoted field', { path: this.file.path, line: recordLine });
+    }
+
+    fields.push(field);
+    if (fields.length > 1 || fields[0] !== '') {
+      yield { fields, line: recordLine };
+    }
+  }
+
+  static detectEncoding(sample: Buffer): { encoding: CSVEncoding; hasBom: boolean } {
+    if (sample[0] === 0xEF && sample[1] === 0xBB && sample[2] === 0xBF) {
+      return { encoding: 'utf-8', hasBom: true };
+    }
+    if (sample[0] === 0xFF && sample[1] === 0xFE) {
+      return { encoding: 'utf-16le', hasBom: true };
+    }
+    if (sample[0] === 0xFE && sample[1] === 0xFF) {
+      return { encoding: 'utf-16be', hasBom: true };
+    }
+
+    // BOM-less UTF-16: mostly-ASCII text leaves a zero in every other byte
+    let evenZeros = 0, oddZeros = 0;
+    for (let i = 0; i < sample.length; i++) {
+      if (sample[i] === 0) {
+        if (i % 2 === 0) evenZeros++; else oddZeros++;
+      }
+    }
+    const pairs = Math.floor(sample.length / 2);
+    if (pairs > 0 && oddZeros > pairs * 0.3 && oddZeros > evenZeros * 2) {
+      return { encoding: 'utf-16le', hasBom: false };
+    }
+    if (pairs > 0 && evenZeros > pairs * 0.3 && evenZeros > oddZeros * 2) {
+      return { encoding: 'utf-16be', hasBom: false };
+    }
+
+    try {
+      // stream: true tolerates a multi-byte sequence cut off at the end of the sample
+      new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+      return { encoding: 'utf-8', hasBom: false };
+    } catch {
+      return { encoding: 'windows-1252', hasBom: false };
+    }
+  }
+
+  static detectDelimiter(text: string): string {
+    const counts = new Map<string, number>(CANDIDATE_DELIMITERS.map(d => [d, 0]));
+    let inQuotes = false;
+
+    // Count candidates outside quotes on the header record only
+    for (const char of text) {
+      if (char === '"') {
+        inQuotes = !inQuotes;
+      } else if (!inQuotes && (char === '\n' || char === '\r')) {
+        break;
+      } else if (!inQuotes && counts.has(char)) {
+        counts.set(char, counts.get(char)! + 1);
+      }
+    }
+
+    let best = ',';
+    let bestCount = 0;
+    for (const [delimiter, count] of counts) {
+      if (count > bestCount) {
+        best = delimiter;
+        bestCount = count;
+      }
+    }
+    return best;
+  }
+
+}
@@ -2,10 +2,15 @@
  *  Database Layer 
  */
 
+import * as os from 'os';
 import pkg from 'pg';
+import type { PoolClient } from 'pg';
 const { Pool } = pkg;
-import { Integration, FieldMap, OrderData, JobUpdate } from './types.js';
-import { DatabaseError, Validators, Logger } from './utils.js';
+import { Integration, DetectionResult, FieldMap, OrderData, Rating, JobFilters, JobCheckpoint, DataSourceFile, IngestionJob, RollbackResult, QuarantinedRecord, QuarantineStatus, OrderTimeline, JobChangeSummary, MatchCandidate, MatchProposal, MatchStatus, RestaurantMatch, LocationSummary, RestaurantAlias, RestaurantAliasType, RestaurantMergeResult, IntegrationVersion, SchemaDrift, JobDrift, FxRate, FxRatePair } from './types.js';
+import { DatabaseError, ValidationError, Validators, Logger } from './utils.js';
+import { IntegrationSchema } from './integration-schema.js';
+import { IntegrationDetector } from './integration-detector.js';
+import { RestaurantMatcher } from './restaurant-matcher.js';
 
 const pool = new Pool({
   host: process.env.DB_HOST || 'localhost',
@@ -20,9 +25,118 @@ const pool = new Pool({
   query_timeout: 60000,
 });
 
+// Either the shared pool or a checked-out client holding an open transaction
+export type Queryable = Pick<PoolClient, 'query'>;
+
+// A running job that has not reported progress for this long is taken to have lost its process
+export const STALE_JOB_MINUTES = 10;
+const staleJob = (alias: string) => `(${alias}.status IN ('pending', 'running') AND
+  COALESCE(${alias}.heartbeat_at, ${alias}.started_at) < NOW() - INTERVAL '${STALE_JOB_MINUTES} minutes')`;
+
+// Identifies the process running a job, for `jobs show`
+const WORKER = `${os.hostname()}:${process.pid}`;
+
+// Advisory lock key for a file loaded by an integration. Single bigint keys don't share a
+// key space with the two-integer restaurant locks
+const fileLockKey = (integrationId: number, fileHash: string) => `file:${integrationId}:${fileHash}`;
+
+// How long detection trusts its copy of the active integrations
+const ACTIVE_INTEGRATIONS_TTL_MS = 30000;
+
+// Keeps multi-row statements well under Postgres' 65535 bind parameter limit
+const MAX_ROWS_PER_STATEMENT = 1000;
+
+const ORDER_COLUMNS = [
+  'platform_id', 'platform_order_id', 'restaurant_id', 'order_status',
+  'delivery_type', 'order_value', 'basket_size', 'discount_amount',
+  'order_datetime', 'restaurant_wait_time_minutes', 'total_delivery_time_minutes',
+  'courier_wait_time_minutes', 'prep_time_minutes', 'currency_code', 'auto_accept_status',
+  'ingestion_job_id'
+];
+
+// Tables whose rows carry ingestion_job_id and are recorded in job_changes, parents first
+const LINEAGE_TABLES = ['restaurants', 'orders', 'ratings'];
+
+function validateOrder(orderData: OrderData): void {
+  if (!Validators.isValidNumber(orderData.platform_id)) {
+    throw new DatabaseError('Platform ID must be a valid number', { platformId: orderData.platform_id });
+  }
+  
+  if (!Validators.isValidString(orderData.platform_order_id)) {
+    throw new DatabaseError('Platform order ID is required and must be a non-empty string', { 
+      platformOrderId: orderData.platform_order_id 
+    });
+  }
+  
+  if (!Validators.isValidNumber(orderData.restaurant_id)) {
+    throw new DatabaseError('Restaurant ID must be a valid number', { restaurantId: orderData.restaurant_id });
+  }
+}
+
+function orderValues(orderData: OrderData): any[] {
+  return [
+    orderData.platform_id,
+    orderData.platform_order_id,
+    orderData.restaurant_id,
+    orderData.order_status,
+    orderData.delivery_type || 'UNKNOWN',
+    orderData.order_value,
+    orderData.basket_size,
+    orderData.discount_amount,
+    orderData.order_datetime,
+    orderData.restaurant_wait_time_minutes,
+    orderData.total_delivery_time_minutes,
+    orderData.courier_wait_time_minutes,
+    orderData.prep_time_minutes,
+    orderData.currency_code || 'GBP',
+    orderData.auto_accept_status,
+    orderData.ingestion_job_id ?? null
+  ];
+}
+
+// Builds "($1, $2), ($3, $4)" placeholders and the flattened parameter list for a multi-row VALUES
+function valuesClause(rows: any[][]): { text: string; params: any[] } {
+  const params: any[] = [];
+  const tuples = rows.map(row => {
+    const placeholders = row.map(value => {
+      params.push(value);
+      return `$${params.length}`;
+    });
+    return `(${placeholders.join(', ')})`;
+  });
+  return { text: tuples.join(', '), params };
+}
+
+// ON CONFLICT DO UPDATE cannot touch the same row twice in one statement, so keep the last occurrence
+function lastByKey<T>(rows: T[], key: (row: T) => string): T[] {
+  const byKey = new Map<string, T>();
+  rows.forEach(row => {
+    const k = key(row);
+    byKey.delete(k);
+    byKey.set(k, row);
+  });
+  return [...byKey.values()];
+}
+
+function chunk<T>(rows: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < rows.length; i += size) {
+    chunks.push(rows.slice(i, i + size));
+  }
+  return chunks;
+}
+
 export class Database {
   
-  async upsertRestaurant(name: string, platformId: number, externalId?: string): Promise<number> {
+  async connect(): Promise<PoolClient> {
+    try {
+      return await pool.connect();
+    } catch (error: unknown) {
+      throw new DatabaseError('Failed to acquire database connection', { originalError: error });
+    }
+  }
+
+  async upsertRestaurant(name: string, platformId: number, externalId?: string, client: Queryable = pool, jobId?: number): Promise<number> {
     try {
       // Input validation
       if (!Validators.isValidString(name)) {
@@ -35,47 +149,68 @@ export class Database {
 
       const nameStr = String(name);
       const platformIdNum = Number(platformId);
+      const externalIdStr = externalId && externalId.trim() !== '' ? String(externalId) : undefined;
+      let restaurantId: number | undefined;
+      
+      await this.lockRestaurant(client, platformIdNum, nameStr, externalIdStr);
       
       // First try to find existing restaurant by external_id if provided
-      if (externalId && externalId.trim() !== '') {
-        const existingByExternalId = await pool.query(
+      if (externalIdStr) {
+        const existingByExternalId = await client.query(
           'SELECT id FROM restaurants WHERE platform_id = $1 AND external_id = $2',
-          [platformIdNum, String(externalId)]
+          [platformIdNum, externalIdStr]
         );
         
         if (existingByExternalId.rows.length > 0) {
           // Update the name if different and return existing ID
-          await pool.query(
-            'UPDATE restaurants SET name = $1 WHERE id = $2',
-            [nameStr, existingByExternalId.rows[0].id]
+          await client.query(
+            `UPDATE restaurants SET name = $1, ingestion_job_id = COALESCE($3, ingestion_job_id)
+             WHERE id = $2 AND name IS DISTINCT FROM $1`,
+            [nameStr, existingByExternalId.rows[0].id, jobId ?? null]
           );
-          return existingByExternalId.rows[0].id;
+          restaurantId = existingByExternalId.rows[0].id;
+        } else {
+          // An external id the restaurant had before a merge or an id change
+          restaurantId = await this.findRestaurantByAlias(client, platformIdNum, 'external_id', externalIdStr);
         }
       }
       
       // Then try to find by name and platform
-      const existingByName = await pool.query(
-        'SELECT id FROM restaurants WHERE platform_id = $1 AND name = $2',
-        [platformIdNum, nameStr]
-      );
-      
-      if (existingByName.rows.length > 0) {
-        // Update external_id if provided and return existing ID
-        if (externalId && externalId.trim() !== '') {
-          await pool.query(
-            'UPDATE restaurants SET external_id = $1 WHERE id = $2',
-            [String(externalId), existingByName.rows[0].id]
-          );
+      if (!restaurantId) {
+        const existingByName = await client.query(
+          'SELECT id FROM restaurants WHERE platform_id = $1 AND name = $2',
+          [platformIdNum, nameStr]
+        );
+        
+        if (existingByName.rows.length > 0) {
+          // Update external_id if provided and return existing ID
+          if (externalIdStr) {
+            await client.query(
+              `UPDATE restaurants SET external_id = $1, ingestion_job_id = COALESCE($3, ingestion_job_id)
+               WHERE id = $2 AND external_id IS DISTINCT FROM $1`,
+              [externalIdStr, existingByName.rows[0].id, jobId ?? null]
+            );
+          }
+          restaurantId = existingByName.rows[0].id;
         }
-        return existingByName.rows[0].id;
+      }
+
+      // Then by any name the restaurant has been listed under, so a renamed listing keeps its history
+      if (!restaurantId) {
+        restaurantId = await this.findRestaurantByAlias(client, platformIdNum, 'name', nameStr);
       }
       
       // Create new restaurant
-      const result = await pool.query(
-        'INSERT INTO restaurants (name, platform_id, external_id) VALUES ($1, $2, $3) RETURNING id',
-        [nameStr, platformIdNum, externalId && externalId.trim() !== '' ? String(externalId) : null]
-      );
-      return result.rows[0].id;
+      if (!restaurantId) {
+        const result = await client.query(
+          'INSERT INTO restaurants (name, platform_id, external_id, ingestion_job_id) VALUES ($1, $2, $3, $4) RETURNING id',
+          [nameStr, platformIdNum, externalIdStr ?? null, jobId ?? null]
+        );
+        restaurantId = result.rows[0].id as number;
+      }
+
+      await this.recordRestaurantAliases(client, restaurantId, platformIdNum, nameStr, externalIdStr);
+      return restaurantId;
     } catch (error: unknown) {
       if (error instanceof DatabaseError) {
         throw error;
@@ -89,6 +224,65 @@ export class Database {
     }
   }
 
+  /**
+   * Holds the restaurant's name and external id until the caller's transaction ends, so
+   * concurrent loads can't both miss a restaurant and insert it twice. Names are locked
+   * in normalised form to cover alias matches; keys are taken in a fixed order. Loads
+   * bound the wait with lock_timeout, so a load blocked by another fails its job.
+   */
+  private async lockRestaurant(client: Queryable, platformId: number, name: string, externalId?: string): Promise<void> {
+    const keys = [`name:${RestaurantMatcher.normaliseName(name) || name}`];
+    if (externalId) keys.push(`external_id:${externalId}`);
+    await client.query(
+      `SELECT pg_advisory_xact_lock($1, hashtext(key))
+       FROM (SELECT key FROM unnest($2::text[]) AS key ORDER BY key) keys`,
+      [platformId, keys]
+    );
+  }
+
+  /**
+   * Looks a restaurant up by a name or external id it has been seen with. Names fall
+   * back to a normalised comparison ("Pizza Co - Soho" and "Pizza Co Soho"), used only
+   * when it points at a single restaurant.
+   */
+  private async findRestaurantByAlias(client: Queryable, platformId: number, aliasType: RestaurantAliasType, value: string): Promise<number | undefined> {
+    const exact = await client.query(
+      'SELECT restaurant_id FROM restaurant_aliases WHERE platform_id = $1 AND alias_type = $2 AND value = $3',
+      [platformId, aliasType, value]
+    );
+    if (exact.rows.length > 0 || aliasType !== 'name') {
+      return exact.rows[0]?.restaurant_id;
+    }
+
+    const normalised = RestaurantMatcher.normaliseName(value);
+    if (!normalised) return undefined;
+    const aliases = await client.query(
+      `SELECT DISTINCT restaurant_id, value FROM restaurant_aliases WHERE platform_id = $1 AND alias_type = 'name'`,
+      [platformId]
+    );
+    const matches = new Set<number>(
+      aliases.rows
+        .filter((alias: any) => RestaurantMatcher.normaliseName(alias.value) === normalised)
+        .map((alias: any) => alias.restaurant_id)
+    );
+    return matches.size === 1 ? [...matches][0] : undefined;
+  }
+
+  // An alias belongs to the first restaurant it was seen with; merges move it explicitly
+  private async recordRestaurantAliases(client: Queryable, restaurantId: number, platformId: number, name: string, externalId?: string): Promise<void> {
+    const aliases: Array<[RestaurantAliasType, string]> = [['name', name]];
+    if (externalId) aliases.push(['external_id', externalId]);
+
+    const values = valuesClause(aliases.map(([type, value]) => [restaurantId, platformId, type, value]));
+    await client.query(
+      `INSERT INTO restaurant_aliases (restaurant_id, platform_id, alias_type, value)
+       VALUES ${values.text}
+       ON CONFLICT (platform_id, alias_type, value) DO UPDATE SET last_seen_at = NOW()`,
+      values.params
+    );
+  }
+
+
   async upsertPlatform(name: string): Promise<number> {
     try {
       // Input validation
@@ -112,51 +306,112 @@ export class Database {
     }
   }
 
-  async upsertIntegration(integration: Partial<Integration>): Promise<number> {
-    const result = await pool.query(
-      `INSERT INTO integrations (name, platform_id, field_mapping, tables, is_active) 
-       VALUES ($1, $2, $3::jsonb, $4, $5) 
-       ON CONFLICT (name) DO UPDATE SET 
-         platform_id = EXCLUDED.platform_id,
-         field_mapping = EXCLUDED.field_mapping,
-         tables = EXCLUDED.tables,
-         is_active = EXCLUDED.is_active
+  async upsertIntegration(integration: Partial<Integration>, note?: string): Promise<number> {
+    const problems = IntegrationSchema.validate(integration);
+    const errors = IntegrationSchema.errors(problems).map(IntegrationSchema.format);
+    if (errors.length > 0) {
+      throw new ValidationError(`Invalid integration ${integration.name}: ${errors.join('; ')}`, {
+        integration: integration.name,
+        problems: errors
+      });
+    }
+    problems
+      .filter(problem => problem.severity === 'warning')
+      .forEach(problem => Logger.warn(`${integration.name}: ${IntegrationSchema.format(problem)}`));
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Without is_active a new integration starts active and a saved one keeps its state
+      const result = await client.query(
+        `INSERT INTO integrations (name, platform_id, field_mapping, tables, status_rules, timezone, number_locale, signature_headers, drift_policy, is_active) 
+         VALUES ($1, $2, $3::jsonb, $4, $5::jsonb, $6, $7, $8, $9, COALESCE($10::boolean, true)) 
+         ON CONFLICT (name) DO UPDATE SET 
+           platform_id = EXCLUDED.platform_id,
+           field_mapping = EXCLUDED.field_mapping,
+           tables = EXCLUDED.tables,
+           status_rules = EXCLUDED.status_rules,
+           timezone = EXCLUDED.timezone,
+           number_locale = EXCLUDED.number_locale,
+           signature_headers = EXCLUDED.signature_headers,
+           drift_policy = EXCLUDED.drift_policy,
+           is_active = COALESCE($10::boolean, integrations.is_active)
+         RETURNING id`,
+        [
+          integration.name,
+          integration.platform_id,
+          JSON.stringify(integration.field_mapping),
+          integration.tables,
+          integration.status_rules ? JSON.stringify(integration.status_rules) : null,
+          integration.timezone || null,
+          integration.number_locale || null,
+          integration.signature_headers?.length ? integration.signature_headers : null,
+          integration.drift_policy || null,
+          integration.is_active ?? null
+        ]
+      );
+      const integrationId = result.rows[0].id;
+      await this.recordIntegrationVersion(client, integrationId, note);
+
+      await client.query('COMMIT');
+      this.activeIntegrations = null;
+      return integrationId;
+    } catch (error: unknown) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw new DatabaseError('Failed to save integration', { originalError: error, integration: integration.name });
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Saves the integration's definition as a new version when it differs from its current
+   * version (is_active is not part of the definition). Returns the current version's id.
+   */
+  private async recordIntegrationVersion(client: Queryable, integrationId: number, note?: string): Promise<number> {
+    const current = await client.query(
+      `SELECT v.id FROM integrations i JOIN integration_versions v ON v.id = i.current_version_id
+       WHERE i.id = $1
+         AND v.platform_id = i.platform_id
+         AND v.field_mapping = i.field_mapping
+         AND v.tables = i.tables
+         AND v.status_rules IS NOT DISTINCT FROM i.status_rules
+         AND v.timezone IS NOT DISTINCT FROM i.timezone
+         AND v.number_locale IS NOT DISTINCT FROM i.number_locale
+         AND v.signature_headers IS NOT DISTINCT FROM i.signature_headers
+         AND v.drift_policy IS NOT DISTINCT FROM i.drift_policy`,
+      [integrationId]
+    );
+    if (current.rows.length > 0) {
+      return current.rows[0].id;
+    }
+
+    // The row lock on integrations (taken by the upsert) serialises version numbering
+    const inserted = await client.query(
+      `INSERT INTO integration_versions (integration_id, version, platform_id, field_mapping, tables, status_rules, timezone, number_locale, signature_headers, drift_policy, note)
+       SELECT i.id, COALESCE((SELECT MAX(version) FROM integration_versions WHERE integration_id = i.id), 0) + 1,
+              i.platform_id, i.field_mapping, i.tables, i.status_rules, i.timezone, i.number_locale, i.signature_headers, i.drift_policy, $2
+       FROM integrations i WHERE i.id = $1
        RETURNING id`,
-      [
-        integration.name,
-        integration.platform_id,
-        JSON.stringify(integration.field_mapping),
-        integration.tables,
-        integration.is_active ?? true
-      ]
+      [integrationId, note ?? null]
     );
-    return result.rows[0].id;
+    await client.query('UPDATE integrations SET current_version_id = $2 WHERE id = $1', [integrationId, inserted.rows[0].id]);
+    return inserted.rows[0].id;
   }
 
-  async upsertOrder(orderData: OrderData): Promise<number> {
+  async upsertOrder(orderData: OrderData, client: Queryable = pool): Promise<number> {
     try {
-      // Input validation
-      if (!Validators.isValidNumber(orderData.platform_id)) {
-        throw new DatabaseError('Platform ID must be a valid number', { platformId: orderData.platform_id });
-      }
-      
-      if (!Validators.isValidString(orderData.platform_order_id)) {
-        throw new DatabaseError('Platform order ID is required and must be a non-empty string', { 
-          platformOrderId: orderData.platform_order_id 
-        });
-      }
-      
-      if (!Validators.isValidNumber(orderData.restaurant_id)) {
-        throw new DatabaseError('Restaurant ID must be a valid number', { restaurantId: orderData.restaurant_id });
-      }
+      validateOrder(orderData);
 
-      const result = await pool.query(
+      const result = await client.query(
         `INSERT INTO orders (
           platform_id, platform_order_id, restaurant_id, order_status, 
           delivery_type, order_value, basket_size, discount_amount, 
           order_datetime, restaurant_wait_time_minutes, total_delivery_time_minutes, 
-          courier_wait_time_minutes, prep_time_minutes, currency_code, auto_accept_status
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+          courier_wait_time_minutes, prep_time_minutes, currency_code, auto_accept_status,
+          ingestion_job_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
         ON CONFLICT (platform_id, platform_order_id) 
         DO UPDATE SET 
           restaurant_id = EXCLUDED.restaurant_id,
@@ -171,25 +426,10 @@ export class Database {
           courier_wait_time_minutes = EXCLUDED.courier_wait_time_minutes,
           prep_time_minutes = EXCLUDED.prep_time_minutes,
           currency_code = EXCLUDED.currency_code,
-          auto_accept_status = EXCLUDED.auto_accept_status
+          auto_accept_status = EXCLUDED.auto_accept_status,
+          ingestion_job_id = EXCLUDED.ingestion_job_id
         RETURNING id`,
-        [
-          orderData.platform_id,
-          orderData.platform_order_id,
-          orderData.restaurant_id,
-          orderData.order_status,
-          orderData.delivery_type || 'UNKNOWN',
-          orderData.order_value,
-          orderData.basket_size,
-          orderData.discount_amount,
-          orderData.order_datetime,
-          orderData.restaurant_wait_time_minutes,
-          orderData.total_delivery_time_minutes,
-          orderData.courier_wait_time_minutes,
-          orderData.prep_time_minutes,
-          orderData.currency_code || 'GBP',
-          orderData.auto_accept_status
-        ]
+        orderValues(orderData)
       );
       return result.rows[0].id;
     } catch (error: unknown) {
@@ -203,27 +443,59 @@ export class Database {
     }
   }
 
-  async upsertRating(ratingData: any, restaurantId: number, platformId: number): Promise<void> {
+  async bulkUpsertOrders(orders: OrderData[], client: Queryable = pool): Promise<void> {
+    try {
+      orders.forEach(validateOrder);
+
+      const unique = lastByKey(orders, order => `${order.platform_id}|${order.platform_order_id}`);
+      const updates = ORDER_COLUMNS
+        .filter(column => column !== 'platform_id' && column !== 'platform_order_id')
+        .map(column => `${column} = EXCLUDED.${column}`)
+        .join(',\n          ');
+
+      for (const rows of chunk(unique, MAX_ROWS_PER_STATEMENT)) {
+        const values = valuesClause(rows.map(orderValues));
+        await client.query(
+          `INSERT INTO orders (${ORDER_COLUMNS.join(', ')})
+          VALUES ${values.text}
+          ON CONFLICT (platform_id, platform_order_id)
+          DO UPDATE SET
+          ${updates}`,
+          values.params
+        );
+      }
+    } catch (error: unknown) {
+      if (error instanceof DatabaseError) {
+        throw error;
+      }
+      throw new DatabaseError('Failed to bulk upsert orders', { 
+        originalError: error, 
+        orderCount: orders.length 
+      });
+    }
+  }
+
+  async upsertRating(ratingData: any, restaurantId: number, platformId: number, client: Queryable = pool): Promise<void> {
     // Check if rating already exists for this order
     if (ratingData.platform_order_id) {
-      const existing = await pool.query(
+      const existing = await client.query(
         'SELECT id FROM ratings WHERE platform_id = $1 AND platform_order_id = $2 AND rating_type = $3',
         [platformId, ratingData.platform_order_id, ratingData.rating_type]
       );
       
       if (existing.rows.length > 0) {
         // Update existing rating
-        await pool.query(
-          'UPDATE ratings SET rating_value = $1, comment = $2 WHERE id = $3',
-          [ratingData.rating_value, ratingData.comment, existing.rows[0].id]
+        await client.query(
+          'UPDATE ratings SET rating_value = $1, comment = $2, ingestion_job_id = $4 WHERE id = $3',
+          [ratingData.rating_value, ratingData.comment, existing.rows[0].id, ratingData.ingestion_job_id ?? null]
         );
         return;
       }
     }
     
     // Insert new rating
-    await pool.query(
-      'INSERT INTO ratings (platform_order_id, restaurant_id, platform_id, rating_value, rating_type, comment, rating_date) VALUES ($1, $2, $3, $4, $5, $6, $7)',
+    await client.query(
+      'INSERT INTO ratings (platform_order_id, restaurant_id, platform_id, rating_value, rating_type, comment, rating_date, ingestion_job_id) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)',
       [
         ratingData.platform_order_id || null,
         restaurantId,
@@ -231,40 +503,60 @@ export class Database {
         ratingData.rating_value,
         ratingData.rating_type,
         ratingData.comment,
-        ratingData.rating_date || null
+        ratingData.rating_date || null,
+        ratingData.ingestion_job_id ?? null
       ]
     );
   }
 
-  private integrationCache = new Map<string, Integration>();
-  
-  async getIntegrationByHeaders(headers: string[]): Promise<Integration | null> {
-    const cacheKey = [...headers].sort().join('|');
-    if (this.integrationCache.has(cacheKey)) {
-      return this.integrationCache.get(cacheKey)!;
-    }
+  async bulkUpsertRatings(ratings: Rating[], client: Queryable = pool): Promise<void> {
+    try {
+      // Ratings without an order id can't be matched to an existing row, so they are always inserted
+      const keyed = lastByKey(
+        ratings.filter(rating => rating.platform_order_id),
+        rating => `${rating.platform_id}|${rating.platform_order_id}|${rating.rating_type}`
+      );
+      const unkeyed = ratings.filter(rating => !rating.platform_order_id);
 
-    const result = await pool.query('SELECT * FROM integrations WHERE is_active = true');
-    
-    let bestMatch: Integration | null = null;
-    let bestScore = 0;
-    
-    for (const integration of result.rows) {
-      const fieldMappingKeys = Object.keys(integration.field_mapping);
-      const matchCount = fieldMappingKeys.filter(key => headers.includes(key)).length;
-      const score = matchCount / fieldMappingKeys.length;
-      
-      if (score > 0.7 && score > bestScore) {
-        bestMatch = integration;
-        bestScore = score;
+      for (const rows of chunk([...keyed, ...unkeyed], MAX_ROWS_PER_STATEMENT)) {
+        const values = valuesClause(rows.map(rating => [
+          rating.platform_order_id || null,
+          rating.restaurant_id,
+          rating.platform_id,
+          rating.rating_value,
+          rating.rating_type,
+          rating.comment,
+          rating.rating_date || null,
+          rating.ingestion_job_id ?? null
+        ]));
+        await client.query(
+          `INSERT INTO ratings (platform_order_id, restaurant_id, platform_id, rating_value, rating_type, comment, rating_date, ingestion_job_id)
+          VALUES ${values.text}
+          ON CONFLICT (platform_id, platform_order_id, rating_type) WHERE platform_order_id IS NOT NULL
+          DO UPDATE SET
+          rating_value = EXCLUDED.rating_value,
+          comment = EXCLUDED.comment,
+          ingestion_job_id = EXCLUDED.ingestion_job_id`,
+          values.params
+        );
       }
+    } catch (error: unknown) {
+      throw new DatabaseError('Failed to bulk upsert ratings', { 
+        originalError: error, 
+        ratingCount: ratings.length 
+      });
     }
+  }
+
+  // Active integrations for detection; reloaded after ACTIVE_INTEGRATIONS_TTL_MS so changes made by other processes show up
+  private activeIntegrations: { loadedAt: number; integrations: Integration[] } | null = null;
 
-    if (bestMatch) {
-      this.integrationCache.set(cacheKey, bestMatch);
+  async detectIntegration(headers: string[]): Promise<DetectionResult> {
+    if (!this.activeIntegrations || Date.now() - this.activeIntegrations.loadedAt > ACTIVE_INTEGRATIONS_TTL_MS) {
+      const result = await pool.query('SELECT * FROM integrations WHERE is_active = true');
+      this.activeIntegrations = { loadedAt: Date.now(), integrations: result.rows };
     }
-    
-    return bestMatch;
+    return IntegrationDetector.detect(this.activeIntegrations.integrations, headers);
   }
 
   async isFileProcessed(integrationId: number, filePath: string, fileHash: string): Promise<boolean> {
@@ -275,14 +567,123 @@ export class Database {
     return result.rows.length > 0;
   }
 
-  async createJob(integrationId: number, filePath: string, totalRows: number): Promise<number> {
+  /**
+   * Claims a file for loading on the connection that will load it. The lock is held by
+   * the session, so it outlives each batch COMMIT and goes away if the process dies.
+   */
+  async tryLockFile(client: PoolClient, integrationId: number, fileHash: string): Promise<boolean> {
+    const result = await client.query(
+      'SELECT pg_try_advisory_lock(hashtextextended($1, 0)) AS locked',
+      [fileLockKey(integrationId, fileHash)]
+    );
+    return result.rows[0].locked;
+  }
+
+  async unlockFile(client: PoolClient, integrationId: number, fileHash: string): Promise<void> {
+    await client.query('SELECT pg_advisory_unlock(hashtextextended($1, 0))', [fileLockKey(integrationId, fileHash)]);
+  }
+
+  async getProcessedFile(integrationId: number, fileHash: string): Promise<DataSourceFile | null> {
+    const result = await pool.query(
+      'SELECT * FROM data_source_files WHERE integration_id = $1 AND file_hash = $2 LIMIT 1',
+      [integrationId, fileHash]
+    );
+    return result.rows[0] || null;
+  }
+
+  async createJob(job: {
+    integrationId: number;
+    filePath: string;
+    fileHash: string;
+    reprocessOf?: number;
+    integrationVersionId?: number | null;
+    archivePath?: string;
+  }): Promise<number> {
+    // Jobs are created by the process about to run them, so they start out running
     const result = await pool.query(
-      'INSERT INTO ingestion_jobs (integration_id, file_path, total_rows) VALUES ($1, $2, $3) RETURNING id',
-      [integrationId, filePath, totalRows]
+      `INSERT INTO ingestion_jobs (integration_id, file_path, file_hash, reprocess_of, integration_version_id, archive_path, status, worker, heartbeat_at)
+       VALUES ($1, $2, $3, $4, $5, $6, 'running', $7, NOW()) RETURNING id`,
+      [job.integrationId, job.filePath, job.fileHash, job.reprocessOf ?? null, job.integrationVersionId ?? null, job.archivePath ?? null, WORKER]
     );
     return result.rows[0].id;
   }
 
+  // The newest job to read this file through the integration, with its version number and staleness
+  async getLatestJobForFile(integrationId: number, fileHash: string): Promise<IngestionJob | null> {
+    const result = await pool.query(
+      `SELECT j.*, v.version as integration_version, ${staleJob('j')} as stale
+       FROM ingestion_jobs j
+       LEFT JOIN integration_versions v ON v.id = j.integration_version_id
+       WHERE j.integration_id = $1 AND j.file_hash = $2
+       ORDER BY j.id DESC
+       LIMIT 1`,
+      [integrationId, fileHash]
+    );
+    return result.rows[0] || null;
+  }
+
+  // Takes over an interrupted job; its counters carry on from the checkpoint
+  async resumeJob(jobId: number): Promise<void> {
+    await pool.query(
+      `UPDATE ingestion_jobs
+       SET status = 'running', worker = $2, heartbeat_at = NOW(), completed_at = NULL,
+           cancel_requested_at = NULL, error_message = NULL, error_context = NULL,
+           resume_count = COALESCE(resume_count, 0) + 1
+       WHERE id = $1`,
+      [jobId, WORKER]
+    );
+  }
+
+  // Written inside the load transaction, so the checkpoint commits together with the rows it covers
+  async saveCheckpoint(jobId: number, checkpoint: JobCheckpoint, client: Queryable): Promise<void> {
+    await client.query(
+      'UPDATE ingestion_jobs SET checkpoint = $2::jsonb, processed_rows = $3, error_rows = $4, heartbeat_at = NOW() WHERE id = $1',
+      [jobId, JSON.stringify(checkpoint), checkpoint.processed, checkpoint.errors]
+    );
+  }
+
+  async recordSchemaDrift(jobId: number, headers: string[], drift: SchemaDrift): Promise<void> {
+    await pool.query(
+      'UPDATE ingestion_jobs SET source_headers = $2, schema_drift = $3::jsonb WHERE id = $1',
+      [jobId, headers, JSON.stringify(drift)]
+    );
+  }
+
+  // Headers of the integration's most recent job, the baseline for spotting new columns
+  async getLastSourceHeaders(integrationId: number): Promise<string[] | null> {
+    const result = await pool.query(
+      `SELECT source_headers FROM ingestion_jobs
+       WHERE integration_id = $1 AND source_headers IS NOT NULL
+       ORDER BY id DESC LIMIT 1`,
+      [integrationId]
+    );
+    return result.rows[0]?.source_headers ?? null;
+  }
+
+  // Jobs of an integration whose files drifted from the mapping, newest first. Drift
+  // recorded before unmapped columns were kept lists only the new ones
+  async getSchemaDrift(integrationName: string, limit: number = 20): Promise<JobDrift[]> {
+    const result = await pool.query(
+      `SELECT j.id as job_id, j.file_path, j.status, j.started_at,
+              jsonb_build_object('unmapped', j.schema_drift -> 'added') || j.schema_drift as drift
+       FROM ingestion_jobs j
+       JOIN integrations i ON i.id = j.integration_id
+       WHERE i.name = $1
+         AND j.schema_drift IS NOT NULL
+         AND jsonb_array_length(j.schema_drift -> 'added') + jsonb_array_length(j.schema_drift -> 'missing') +
+             jsonb_array_length(j.schema_drift -> 'empty') > 0
+       ORDER BY j.id DESC
+       LIMIT $2`,
+      [integrationName, limit]
+    );
+    return result.rows;
+  }
+
+  async getJob(jobId: number): Promise<IngestionJob | null> {
+    const result = await pool.query('SELECT * FROM ingestion_jobs WHERE id = $1', [jobId]);
+    return result.rows[0] || null;
+  }
+
   async updateJob(jobId: number, stats: {
     status: string;
     totalRows?: number;
@@ -290,48 +691,792 @@ export class Database {
     insertedRows?: number;
     errorRows?: number;
     errorMessage?: string;
+    errorContext?: Record<string, any>;
   }): Promise<void> {
     const query = `
       UPDATE ingestion_jobs 
       SET status = $2::TEXT, 
-          completed_at = CASE WHEN $2 IN ('completed', 'failed') THEN NOW() ELSE completed_at END,
+          completed_at = CASE WHEN $2 IN ('completed', 'partial', 'failed', 'cancelled') THEN NOW() ELSE completed_at END,
+          heartbeat_at = NOW(),
           total_rows = COALESCE($3::INTEGER, total_rows),
           processed_rows = COALESCE($4::INTEGER, processed_rows), 
           inserted_rows = COALESCE($5::INTEGER, inserted_rows),
           error_rows = COALESCE($6::INTEGER, error_rows),
-          error_message = COALESCE($7::TEXT, error_message)
+          error_message = COALESCE($7::TEXT, error_message),
+          error_context = COALESCE($8::JSONB, error_context)
       WHERE id = $1::INTEGER`;
     
     await pool.query(query, [
       jobId, stats.status, 
-      stats.totalRows || null, stats.processedRows || null, 
-      stats.insertedRows || null, stats.errorRows || null, 
-      stats.errorMessage || null
+      stats.totalRows ?? null, stats.processedRows ?? null, 
+      stats.insertedRows ?? null, stats.errorRows ?? null, 
+      stats.errorMessage || null,
+      stats.errorContext ? JSON.stringify(stats.errorContext) : null
     ]);
   }
 
-  async recordProcessedFile(integrationId: number, filePath: string, fileHash: string, totalRows: number, jobId: number): Promise<void> {
+  /**
+   * Writes a running job's counters and heartbeat outside its load transaction, so other
+   * processes see progress. Returns whether the job has been asked to cancel.
+   */
+  async recordJobProgress(jobId: number, stats: { totalRows: number; processedRows: number; errorRows: number }): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE ingestion_jobs
+       SET total_rows = $2, processed_rows = $3, error_rows = $4, heartbeat_at = NOW()
+       WHERE id = $1
+       RETURNING cancel_requested_at IS NOT NULL as cancel_requested`,
+      [jobId, stats.totalRows, stats.processedRows, stats.errorRows]
+    );
+    return result.rows[0]?.cancel_requested ?? false;
+  }
+
+  /**
+   * Cancels a pending or running job. A live job stops at its next progress write and
+   * rolls back its open transaction; a stale one, whose process is gone, is marked
+   * cancelled straight away.
+   */
+  async cancelJob(jobId: number): Promise<'requested' | 'cancelled'> {
+    const result = await pool.query(
+      `UPDATE ingestion_jobs
+       SET cancel_requested_at = COALESCE(cancel_requested_at, NOW()),
+           status = CASE WHEN ${staleJob('ingestion_jobs')} THEN 'cancelled' ELSE status END,
+           completed_at = CASE WHEN ${staleJob('ingestion_jobs')} THEN NOW() ELSE completed_at END,
+           error_message = CASE WHEN ${staleJob('ingestion_jobs')} THEN 'Cancelled after its process stopped reporting progress' ELSE error_message END
+       WHERE id = $1 AND status IN ('pending', 'running')
+       RETURNING status`,
+      [jobId]
+    );
+    if (result.rows.length === 0) {
+      const job = await this.getJob(jobId);
+      if (!job) {
+        throw new ValidationError('Job not found', { jobId });
+      }
+      throw new ValidationError(`Job ${jobId} has already finished (${job.status})`, { jobId, status: job.status });
+    }
+    return result.rows[0].status === 'cancelled' ? 'cancelled' : 'requested';
+  }
+
+  async recordProcessedFile(integrationId: number, filePath: string, fileHash: string, totalRows: number, jobId: number, archivePath: string | null, client: Queryable = pool): Promise<void> {
+    // A forced reprocess takes over the entry of the job it replaces
+    await client.query(
+      `INSERT INTO data_source_files (integration_id, file_path, file_hash, total_rows, job_id, archive_path) VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (integration_id, file_hash) DO UPDATE SET
+         file_path = EXCLUDED.file_path,
+         total_rows = EXCLUDED.total_rows,
+         job_id = EXCLUDED.job_id,
+         archive_path = EXCLUDED.archive_path,
+         processed_at = CURRENT_TIMESTAMP`,
+      [integrationId, filePath, fileHash, totalRows, jobId, archivePath]
+    );
+  }
+
+  async quarantineRecord(record: Omit<QuarantinedRecord, 'id' | 'status' | 'created_at' | 'resolved_at'>, client: Queryable = pool): Promise<number> {
+    try {
+      const result = await client.query(
+        `INSERT INTO quarantined_records (job_id, line_number, raw_record, target_table, error_code, error_message, error_context)
+         VALUES ($1, $2, $3::jsonb, $4, $5, $6, $7::jsonb) RETURNING id`,
+        [
+          record.job_id,
+          record.line_number,
+          JSON.stringify(record.raw_record),
+          record.target_table || null,
+          record.error_code,
+          record.error_message,
+          JSON.stringify(record.error_context || {})
+        ]
+      );
+      return result.rows[0].id;
+    } catch (error: unknown) {
+      throw new DatabaseError('Failed to quarantine record', {
+        originalError: error,
+        jobId: record.job_id,
+        lineNumber: record.line_number
+      });
+    }
+  }
+
+  async getQuarantinedRecords(filters: { jobId?: number; status?: QuarantineStatus } = {}): Promise<QuarantinedRecord[]> {
+    const result = await pool.query(
+      `SELECT q.*, j.integration_id
+       FROM quarantined_records q
+       JOIN ingestion_jobs j ON q.job_id = j.id
+       WHERE j.status <> 'rolled_back'
+         AND ($1::INTEGER IS NULL OR q.job_id = $1)
+         AND ($2::TEXT IS NULL OR q.status = $2)
+       ORDER BY q.job_id, q.line_number`,
+      [filters.jobId ?? null, filters.status ?? null]
+    );
+    return result.rows;
+  }
+
+  async resolveQuarantinedRecord(id: number, client: Queryable = pool): Promise<void> {
+    await client.query(
+      `UPDATE quarantined_records SET status = 'resolved', resolved_at = NOW() WHERE id = $1`,
+      [id]
+    );
+  }
+
+  async updateQuarantinedError(id: number, errorCode: string, errorMessage: string, errorContext: Record<string, any>): Promise<void> {
     await pool.query(
-      'INSERT INTO data_source_files (integration_id, file_path, file_hash, total_rows, job_id) VALUES ($1, $2, $3, $4, $5)',
-      [integrationId, filePath, fileHash, totalRows, jobId]
+      'UPDATE quarantined_records SET error_code = $2, error_message = $3, error_context = $4::jsonb WHERE id = $1',
+      [id, errorCode, errorMessage, JSON.stringify(errorContext)]
     );
   }
 
-  async getJobs(limit: number = 20): Promise<JobUpdate[]> {
+  /**
+   * Moves re-driven rows from the error count to the processed count. The status is only
+   * settled for a job that read its whole file and ended partial or failed on quarantined
+   * rows alone (its error message is the quarantine summary); a job that failed on an
+   * exception or was cancelled keeps its status, as the rest of its file is still unloaded.
+   * Re-driven rows may update existing rows, so inserted_rows is left as it is.
+   */
+  async recordRedrivenRows(jobId: number, count: number): Promise<void> {
+    await pool.query(
+      `UPDATE ingestion_jobs j
+       SET error_rows = GREATEST(j.error_rows - $2, 0),
+           processed_rows = j.processed_rows + $2,
+           status = CASE WHEN NOT settled.quarantine_only THEN j.status
+                         WHEN j.error_rows - $2 <= 0 THEN 'completed' ELSE 'partial' END,
+           error_message = CASE WHEN NOT settled.quarantine_only THEN j.error_message
+                                WHEN j.error_rows - $2 <= 0 THEN NULL ELSE (j.error_rows - $2) || ' rows quarantined' END
+       FROM (
+         SELECT id, COALESCE(status IN ('partial', 'failed') AND error_message = error_rows || ' rows quarantined', false) AS quarantine_only
+         FROM ingestion_jobs WHERE id = $1
+       ) settled
+       WHERE j.id = settled.id`,
+      [jobId, count]
+    );
+  }
+
+  /**
+   * Undoes everything a job wrote: rows it inserted are deleted and rows it updated are
+   * restored from job_changes, along with its data_source_files entry. Refuses while any
+   * of those rows has since been written by another job, which must be rolled back first.
+   */
+  async rollbackJob(jobId: number): Promise<RollbackResult> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const job = (await client.query('SELECT * FROM ingestion_jobs WHERE id = $1 FOR UPDATE', [jobId])).rows[0];
+      if (!job) {
+        throw new ValidationError('Job not found', { jobId });
+      }
+      if (job.status === 'rolled_back') {
+        throw new ValidationError('Job has already been rolled back', { jobId });
+      }
+      if (job.status === 'pending' || job.status === 'running') {
+        throw new ValidationError('Job has not finished', { jobId, status: job.status });
+      }
+
+      const blocking = await this.jobsBlockingRollback(client, jobId);
+      if (blocking.length > 0) {
+        const jobs = blocking.map(id => id === null ? 'changes made outside ingestion' : `job ${id}`);
+        throw new ValidationError(`Rows written by job ${jobId} have since been changed by ${jobs.join(', ')}; roll those back first`, {
+          jobId,
+          blockingJobs: blocking
+        });
+      }
+
+      // Restored rows must not be recorded as new writes by the jobs they go back to
+      await client.query(`SET LOCAL ingest.rollback = 'on'`);
+
+      const result: RollbackResult = { jobId, restored: {}, deleted: {} };
+      for (const table of LINEAGE_TABLES) {
+        result.restored[table] = await this.restoreRows(client, table, jobId);
+      }
+      // Children before parents, so inserted restaurants are free to go
+      for (const table of [...LINEAGE_TABLES].reverse()) {
+        const deleted = await client.query(
+          `DELETE FROM ${table} WHERE id IN (
+             SELECT row_id FROM job_changes WHERE job_id = $1 AND table_name = $2 AND action = 'INSERT'
+           )`,
+          [jobId, table]
+        );
+        result.deleted[table] = deleted.rowCount ?? 0;
+      }
+
+      // A reprocess took over its predecessor's file entry; hand it back if that job's rows are still loaded
+      await client.query(
+        `UPDATE data_source_files d SET job_id = previous.id
+         FROM ingestion_jobs job JOIN ingestion_jobs previous ON previous.id = job.reprocess_of
+         WHERE d.job_id = $1 AND job.id = $1 AND previous.status <> 'rolled_back'`,
+        [jobId]
+      );
+      await client.query('DELETE FROM data_source_files WHERE job_id = $1', [jobId]);
+      // The restored values are the ones before this job, so its history goes with it
+      await client.query('DELETE FROM order_history WHERE job_id = $1', [jobId]);
+      await client.query(
+        `UPDATE ingestion_jobs SET status = 'rolled_back', error_message = $2 WHERE id = $1`,
+        [jobId, `Rolled back at ${new Date().toISOString()}`]
+      );
+
+      await client.query('COMMIT');
+      return result;
+    } catch (error: unknown) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      if (error instanceof ValidationError || error instanceof DatabaseError) {
+        throw error;
+      }
+      throw new DatabaseError('Failed to roll back job', { originalError: error, jobId });
+    } finally {
+      client.release();
+    }
+  }
+
+  // Jobs (null for untracked writes) that rewrote or now depend on rows the given job wrote
+  private async jobsBlockingRollback(client: Queryable, jobId: number): Promise<Array<number | null>> {
+    const checks = LINEAGE_TABLES.map(table =>
+      `SELECT t.ingestion_job_id AS job_id FROM job_changes c JOIN ${table} t ON t.id = c.row_id
+       WHERE c.job_id = $1 AND c.table_name = '${table}' AND t.ingestion_job_id IS DISTINCT FROM $1`
+    );
+    // Orders and ratings from other jobs that point at restaurants this job created
+    for (const child of ['orders', 'ratings']) {
+      checks.push(
+        `SELECT t.ingestion_job_id AS job_id FROM job_changes c JOIN ${child} t ON t.restaurant_id = c.row_id
+         WHERE c.job_id = $1 AND c.table_name = 'restaurants' AND c.action = 'INSERT'
+           AND t.ingestion_job_id IS DISTINCT FROM $1`
+      );
+    }
+
+    const result = await client.query(`SELECT DISTINCT job_id FROM (${checks.join('\n UNION ')}) blocking ORDER BY job_id`, [jobId]);
+    return result.rows.map((row: any) => row.job_id);
+  }
+
+  // Puts rows the job updated back to their values from before its first write
+  private async restoreRows(client: Queryable, table: string, jobId: number): Promise<number> {
+    const columns = await client.query(
+      `SELECT column_name FROM information_schema.columns
+       WHERE table_schema = current_schema() AND table_name = $1 AND column_name <> 'id'
+       ORDER BY ordinal_position`,
+      [table]
+    );
+    // Columns added after the change was captured are left as they are
+    const assignments = columns.rows
+      .map((row: any) => `"${row.column_name}" = CASE WHEN c.previous ? '${row.column_name}' THEN p."${row.column_name}" ELSE t."${row.column_name}" END`)
+      .join(',\n         ');
+
+    const result = await client.query(
+      `UPDATE ${table} t SET
+         ${assignments}
+       FROM job_changes c, jsonb_populate_record(NULL::${table}, c.previous) p
+       WHERE c.job_id = $1 AND c.table_name = $2 AND c.action = 'UPDATE' AND t.id = c.row_id`,
+      [jobId, table]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  // One timeline per platform carrying the order id, oldest change first
+  async getOrderTimelines(platformOrderId: string, platformName?: string): Promise<OrderTimeline[]> {
+    const orders = await pool.query(
+      `SELECT o.*, p.name AS platform, r.name AS restaurant_name
+       FROM orders o
+       JOIN platforms p ON o.platform_id = p.id
+       JOIN restaurants r ON o.restaurant_id = r.id
+       WHERE o.platform_order_id = $1 AND ($2::TEXT IS NULL OR p.name = $2)
+       ORDER BY p.name`,
+      [platformOrderId, platformName ?? null]
+    );
+
+    const timelines: OrderTimeline[] = [];
+    for (const order of orders.rows) {
+      const created = await pool.query(
+        `SELECT c.job_id, j.file_path, c.created_at
+         FROM job_changes c JOIN ingestion_jobs j ON c.job_id = j.id
+         WHERE c.table_name = 'orders' AND c.row_id = $1 AND c.action = 'INSERT'`,
+        [order.id]
+      );
+      const changes = await pool.query(
+        `SELECT h.*, j.file_path
+         FROM order_history h LEFT JOIN ingestion_jobs j ON h.job_id = j.id
+         WHERE h.order_id = $1
+         ORDER BY h.changed_at, h.id`,
+        [order.id]
+      );
+      timelines.push({ order, createdBy: created.rows[0] || null, changes: changes.rows });
+    }
+    return timelines;
+  }
+
+  // Orders touched by a job split by outcome; an update that changed no column counts as unchanged
+  async getJobChangeSummary(jobId: number): Promise<JobChangeSummary> {
+    const counts = await pool.query(
+      `SELECT
+         COUNT(*) FILTER (WHERE c.action = 'INSERT') AS inserted,
+         COUNT(*) FILTER (WHERE c.action = 'UPDATE' AND changed.order_id IS NOT NULL) AS changed,
+         COUNT(*) FILTER (WHERE c.action = 'UPDATE' AND changed.order_id IS NULL) AS unchanged
+       FROM job_changes c
+       LEFT JOIN (SELECT DISTINCT order_id FROM order_history WHERE job_id = $1) changed ON changed.order_id = c.row_id
+       WHERE c.job_id = $1 AND c.table_name = 'orders'`,
+      [jobId]
+    );
+    const columns = await pool.query(
+      `SELECT column_name, COUNT(DISTINCT order_id) AS orders
+       FROM order_history WHERE job_id = $1
+       GROUP BY column_name ORDER BY orders DESC, column_name`,
+      [jobId]
+    );
+    const transitions = await pool.query(
+      `SELECT old_value #>> '{}' AS "from", new_value #>> '{}' AS "to", COUNT(*) AS count
+       FROM order_history WHERE job_id = $1 AND column_name = 'order_status'
+       GROUP BY 1, 2 ORDER BY count DESC, 1, 2`,
+      [jobId]
+    );
+
+    const row = counts.rows[0];
+    return {
+      jobId,
+      inserted: Number(row.inserted),
+      changed: Number(row.changed),
+      unchanged: Number(row.unchanged),
+      columns: Object.fromEntries(columns.rows.map((column: any) => [column.column_name, Number(column.orders)])),
+      statusTransitions: transitions.rows.map((transition: any) => ({ ...transition, count: Number(transition.count) }))
+    };
+  }
+
+  async getMatchCandidates(): Promise<MatchCandidate[]> {
+    const result = await pool.query(
+      `SELECT r.id, r.name, r.platform_id, r.external_id, rl.location_id
+       FROM restaurants r LEFT JOIN restaurant_locations rl ON rl.restaurant_id = r.id
+       ORDER BY r.id`
+    );
+    return result.rows;
+  }
+
+  // Pair keys of accepted and rejected matches, which the matcher leaves alone
+  async getReviewedMatchPairs(): Promise<Set<string>> {
+    const result = await pool.query(`SELECT restaurant_id, candidate_id FROM restaurant_matches WHERE status <> 'proposed'`);
+    return new Set(result.rows.map((row: any) => RestaurantMatcher.pairKey(row.restaurant_id, row.candidate_id)));
+  }
+
+  // Adds new proposals and rescores ones still awaiting review; returns how many were new
+  async saveMatchProposals(proposals: MatchProposal[]): Promise<number> {
+    let inserted = 0;
+    try {
+      for (const rows of chunk(proposals, MAX_ROWS_PER_STATEMENT)) {
+        const values = valuesClause(rows.map(proposal => [proposal.restaurant_id, proposal.candidate_id, proposal.score, proposal.reasons]));
+        const result = await pool.query(
+          `INSERT INTO restaurant_matches (restaurant_id, candidate_id, score, reasons)
+           VALUES ${values.text}
+           ON CONFLICT (restaurant_id, candidate_id)
+           DO UPDATE SET score = EXCLUDED.score, reasons = EXCLUDED.reasons
+           WHERE restaurant_matches.status = 'proposed'
+           RETURNING (xmax = 0) AS inserted`,
+          values.params
+        );
+        inserted += result.rows.filter((row: any) => row.inserted).length;
+      }
+      return inserted;
+    } catch (error: unknown) {
+      throw new DatabaseError('Failed to save restaurant match proposals', { originalError: error, proposalCount: proposals.length });
+    }
+  }
+
+  async getRestaurantMatches(status: MatchStatus = 'proposed'): Promise<RestaurantMatch[]> {
+    const result = await pool.query(
+      `SELECT m.*, m.score::float AS score,
+              a.name AS restaurant_name, pa.name AS restaurant_platform,
+              b.name AS candidate_name, pb.name AS candidate_platform
+       FROM restaurant_matches m
+       JOIN restaurants a ON m.restaurant_id = a.id JOIN platforms pa ON a.platform_id = pa.id
+       JOIN restaurants b ON m.candidate_id = b.id JOIN platforms pb ON b.platform_id = pb.id
+       WHERE m.status = $1
+       ORDER BY m.score DESC, m.id`,
+      [status]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Links both restaurants of a proposed match to one location: the location either
+   * already belongs to, or a new one named after the first restaurant. Fails when they
+   * are already at different locations.
+   */
+  async acceptMatch(matchId: number): Promise<LocationSummary> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const match = (await client.query('SELECT * FROM restaurant_matches WHERE id = $1 FOR UPDATE', [matchId])).rows[0];
+      if (!match) {
+        throw new ValidationError('Match not found', { matchId });
+      }
+      if (match.status !== 'proposed') {
+        throw new ValidationError(`Match has already been ${match.status}`, { matchId });
+      }
+
+      const linked = await client.query(
+        'SELECT DISTINCT location_id FROM restaurant_locations WHERE restaurant_id IN ($1, $2)',
+        [match.restaurant_id, match.candidate_id]
+      );
+      if (linked.rows.length > 1) {
+        throw new ValidationError('Restaurants are linked to different locations; relink one manually', {
+          matchId,
+          locationIds: linked.rows.map((row: any) => row.location_id)
+        });
+      }
+
+      let locationId: number = linked.rows[0]?.location_id;
+      if (!locationId) {
+        const restaurant = (await client.query('SELECT name FROM restaurants WHERE id = $1', [match.restaurant_id])).rows[0];
+        const { brand, location } = RestaurantMatcher.splitName(restaurant.name);
+        locationId = await this.createLocation(client, brand, location);
+      }
+
+      await client.query(
+        `INSERT INTO restaurant_locations (restaurant_id, location_id, source)
+         VALUES ($1, $3, 'matcher'), ($2, $3, 'matcher')
+         ON CONFLICT (restaurant_id) DO NOTHING`,
+        [match.restaurant_id, match.candidate_id, locationId]
+      );
+      // Proposals between restaurants now at the same location need no further review
+      await client.query(
+        `UPDATE restaurant_matches m SET status = 'accepted', reviewed_at = NOW()
+         FROM restaurant_locations a, restaurant_locations b
+         WHERE (m.id = $1 OR m.status = 'proposed')
+           AND a.restaurant_id = m.restaurant_id AND b.restaurant_id = m.candidate_id
+           AND a.location_id = $2 AND b.location_id = $2`,
+        [matchId, locationId]
+      );
+
+      await client.query('COMMIT');
+      return (await this.getLocations(locationId))[0];
+    } catch (error: unknown) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      throw new DatabaseError('Failed to accept restaurant match', { originalError: error, matchId });
+    } finally {
+      client.release();
+    }
+  }
+
+  async rejectMatch(matchId: number): Promise<void> {
+    const result = await pool.query(
+      `UPDATE restaurant_matches SET status = 'rejected', reviewed_at = NOW() WHERE id = $1 AND status = 'proposed'`,
+      [matchId]
+    );
+    if (result.rowCount === 0) {
+      throw new ValidationError('No proposed match with that id', { matchId });
+    }
+  }
+
+  // Links a restaurant to an existing location, or to a new one under the given brand
+  async linkRestaurant(restaurantId: number, target: { locationId: number } | { brand: string; location?: string }): Promise<LocationSummary> {
+    const restaurant = (await pool.query('SELECT name FROM restaurants WHERE id = $1', [restaurantId])).rows[0];
+    if (!restaurant) {
+      throw new ValidationError('Restaurant not found', { restaurantId });
+    }
+
+    let locationId: number;
+    if ('locationId' in target) {
+      const location = await pool.query('SELECT id FROM locations WHERE id = $1', [target.locationId]);
+      if (location.rows.length === 0) {
+        throw new ValidationError('Location not found', { locationId: target.locationId });
+      }
+      locationId = target.locationId;
+    } else {
+      locationId = await this.createLocation(pool, target.brand, target.location || RestaurantMatcher.splitName(restaurant.name).location);
+    }
+
+    await pool.query(
+      `INSERT INTO restaurant_locations (restaurant_id, location_id, source) VALUES ($1, $2, 'manual')
+       ON CONFLICT (restaurant_id) DO UPDATE SET location_id = EXCLUDED.location_id, source = 'manual', linked_at = NOW()`,
+      [restaurantId, locationId]
+    );
+    return (await this.getLocations(locationId))[0];
+  }
+
+  async getLocations(locationId?: number): Promise<LocationSummary[]> {
+    const result = await pool.query(
+      `SELECT l.*, b.name AS brand_name,
+              COALESCE(JSON_AGG(JSON_BUILD_OBJECT('id', r.id, 'name', r.name, 'platform', p.name, 'source', rl.source)
+                                ORDER BY p.name, r.name) FILTER (WHERE r.id IS NOT NULL), '[]') AS restaurants
+       FROM locations l
+       JOIN brands b ON l.brand_id = b.id
+       LEFT JOIN restaurant_locations rl ON rl.location_id = l.id
+       LEFT JOIN restaurants r ON rl.restaurant_id = r.id
+       LEFT JOIN platforms p ON r.platform_id = p.id
+       WHERE $1::INTEGER IS NULL OR l.id = $1
+       GROUP BY l.id, b.name
+       ORDER BY b.name, l.name`,
+      [locationId ?? null]
+    );
+    return result.rows;
+  }
+
+  private async createLocation(client: Queryable, brandName: string, locationName: string): Promise<number> {
+    const brand = await client.query(
+      `INSERT INTO brands (name) VALUES ($1) ON CONFLICT (name) DO UPDATE SET name = EXCLUDED.name RETURNING id`,
+      [brandName]
+    );
+    const location = await client.query(
+      'INSERT INTO locations (brand_id, name) VALUES ($1, $2) RETURNING id',
+      [brand.rows[0].id, locationName]
+    );
+    return location.rows[0].id;
+  }
+
+  async getRestaurantAliases(restaurantId: number): Promise<RestaurantAlias[]> {
+    const result = await pool.query(
+      'SELECT * FROM restaurant_aliases WHERE restaurant_id = $1 ORDER BY alias_type, first_seen_at',
+      [restaurantId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Folds one restaurant into another on the same platform: orders, ratings, aliases and
+   * any location link move across, and the merge is recorded before the duplicate is
+   * deleted. The moved aliases make later files with the old name resolve to the survivor.
+   */
+  async mergeRestaurants(fromId: number, intoId: number): Promise<RestaurantMergeResult> {
+    if (fromId === intoId) {
+      throw new ValidationError('Cannot merge a restaurant into itself', { restaurantId: fromId });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const locked = await client.query('SELECT * FROM restaurants WHERE id IN ($1, $2) ORDER BY id FOR UPDATE', [fromId, intoId]);
+      const from = locked.rows.find((row: any) => row.id === fromId);
+      const into = locked.rows.find((row: any) => row.id === intoId);
+      if (!from || !into) {
+        throw new ValidationError('Restaurant not found', { restaurantId: from ? intoId : fromId });
+      }
+      if (from.platform_id !== into.platform_id) {
+        throw new ValidationError('Restaurants are on different platforms; link them to a location instead', {
+          fromId,
+          intoId
+        });
+      }
+
+      // Repointed orders are recorded in order_history as changes made outside ingestion
+      await client.query(`SET LOCAL ingest.manual = 'on'`);
+
+      const orders = await client.query('UPDATE orders SET restaurant_id = $2 WHERE restaurant_id = $1', [fromId, intoId]);
+      const ratings = await client.query('UPDATE ratings SET restaurant_id = $2 WHERE restaurant_id = $1', [fromId, intoId]);
+      // So rolling back an earlier job restores its rows onto the surviving restaurant
+      await client.query(
+        `UPDATE job_changes SET previous = jsonb_set(previous, '{restaurant_id}', to_jsonb($2::INTEGER))
+         WHERE table_name IN ('orders', 'ratings') AND action = 'UPDATE' AND (previous ->> 'restaurant_id')::INTEGER = $1`,
+        [fromId, intoId]
+      );
+
+      await this.recordRestaurantAliases(client, fromId, from.platform_id, from.name, from.external_id ?? undefined);
+      const aliases = await client.query('UPDATE restaurant_aliases SET restaurant_id = $2 WHERE restaurant_id = $1', [fromId, intoId]);
+      await client.query(
+        `INSERT INTO restaurant_locations (restaurant_id, location_id, source)
+         SELECT $2, location_id, source FROM restaurant_locations WHERE restaurant_id = $1
+         ON CONFLICT (restaurant_id) DO NOTHING`,
+        [fromId, intoId]
+      );
+
+      const merge = await client.query(
+        `INSERT INTO restaurant_merges (from_restaurant_id, from_name, from_external_id, into_restaurant_id, platform_id, orders_moved, ratings_moved)
+         VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING id`,
+        [fromId, from.name, from.external_id, intoId, from.platform_id, orders.rowCount ?? 0, ratings.rowCount ?? 0]
+      );
+      await client.query('DELETE FROM restaurants WHERE id = $1', [fromId]);
+      // The duplicate's external id is free now; keep it on the survivor if it had none
+      if (from.external_id) {
+        await client.query('UPDATE restaurants SET external_id = $2 WHERE id = $1 AND external_id IS NULL', [intoId, from.external_id]);
+      }
+
+      await client.query('COMMIT');
+      return {
+        mergeId: merge.rows[0].id,
+        fromId,
+        intoId,
+        ordersMoved: orders.rowCount ?? 0,
+        ratingsMoved: ratings.rowCount ?? 0,
+        aliasesMoved: aliases.rowCount ?? 0
+      };
+    } catch (error: unknown) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      throw new DatabaseError('Failed to merge restaurants', { originalError: error, fromId, intoId });
+    } finally {
+      client.release();
+    }
+  }
+
+  async getIntegrationById(id: number): Promise<Integration | null> {
+    const result = await pool.query('SELECT * FROM integrations WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  async getJobs(filters: JobFilters = {}): Promise<IngestionJob[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    const add = (condition: string, value: any) => {
+      params.push(value);
+      conditions.push(condition.replace('?', `$${params.length}`));
+    };
+
+    if (filters.status) add('j.status = ?', filters.status);
+    if (filters.integration) add('i.name = ?', filters.integration);
+    if (filters.since) add('j.started_at >= ?', filters.since);
+    if (filters.until) add('j.started_at < ?', filters.until);
+    if (filters.stale) conditions.push(staleJob('j'));
+    params.push(filters.limit ?? 20);
+
+    const result = await pool.query(
+      `SELECT j.*, i.name as integration_name, v.version as integration_version,
+              ${staleJob('j')} as stale
+       FROM ingestion_jobs j
+       JOIN integrations i ON i.id = j.integration_id
+       LEFT JOIN integration_versions v ON v.id = j.integration_version_id
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY j.started_at DESC, j.id DESC
+       LIMIT $${params.length}`,
+      params
+    );
+    return result.rows;
+  }
+
+  async getJobDetails(jobId: number): Promise<IngestionJob | null> {
+    const result = await pool.query(
+      `SELECT j.*, i.name as integration_name, v.version as integration_version,
+              ${staleJob('j')} as stale,
+              (SELECT COUNT(*)::INTEGER FROM quarantined_records q WHERE q.job_id = j.id AND q.status = 'pending') as quarantined_rows
+       FROM ingestion_jobs j
+       JOIN integrations i ON i.id = j.integration_id
+       LEFT JOIN integration_versions v ON v.id = j.integration_version_id
+       WHERE j.id = $1`,
+      [jobId]
+    );
+    return result.rows[0] || null;
+  }
+
+  async getIntegrationByName(name: string, includeInactive: boolean = false): Promise<Integration | null> {
+    const result = await pool.query(
+      `SELECT i.*, p.name as platform_name, v.version FROM integrations i JOIN platforms p ON i.platform_id = p.id
+       LEFT JOIN integration_versions v ON v.id = i.current_version_id
+       WHERE i.name = $1 AND (i.is_active = true OR $2)`,
+      [name, includeInactive]
+    );
+    return result.rows[0] || null;
+  }
+
+  async getIntegrations(includeInactive: boolean = false): Promise<Integration[]> {
+    const result = await pool.query(
+      `SELECT i.*, p.name as platform_name, v.version FROM integrations i JOIN platforms p ON i.platform_id = p.id
+       LEFT JOIN integration_versions v ON v.id = i.current_version_id
+       WHERE i.is_active = true OR $1 ORDER BY p.name, i.name`,
+      [includeInactive]
+    );
+    return result.rows;
+  }
+
+  async getIntegrationVersions(name: string): Promise<IntegrationVersion[]> {
+    const integration = await this.getIntegrationByName(name, true);
+    if (!integration) {
+      throw new ValidationError('Integration not found', { integration: name });
+    }
     const result = await pool.query(
-      'SELECT * FROM ingestion_jobs ORDER BY created_at DESC LIMIT $1',
-      [limit]
+      `SELECT v.*, p.name as platform_name, v.id = i.current_version_id as is_current,
+              (SELECT COUNT(*)::INTEGER FROM ingestion_jobs j WHERE j.integration_version_id = v.id) as job_count
+       FROM integration_versions v
+       JOIN integrations i ON i.id = v.integration_id
+       JOIN platforms p ON p.id = v.platform_id
+       WHERE v.integration_id = $1
+       ORDER BY v.version`,
+      [integration.id]
     );
     return result.rows;
   }
 
-  async getIntegrationByName(name: string): Promise<Integration | null> {
-    const result = await pool.query('SELECT * FROM integrations WHERE name = $1 AND is_active = true', [name]);
+  /**
+   * A saved version in the shape of the integration, so it can be loaded with or diffed
+   * against. current_version_id is the version's own id.
+   */
+  async getIntegrationVersion(name: string, version: number): Promise<Integration | null> {
+    const result = await pool.query(
+      `SELECT i.id, i.name, i.is_active, i.created_at,
+              v.platform_id, v.field_mapping, v.tables, v.status_rules, v.timezone, v.number_locale, v.signature_headers, v.drift_policy,
+              v.id as current_version_id, v.version, p.name as platform_name
+       FROM integrations i
+       JOIN integration_versions v ON v.integration_id = i.id
+       JOIN platforms p ON p.id = v.platform_id
+       WHERE i.name = $1 AND v.version = $2`,
+      [name, version]
+    );
     return result.rows[0] || null;
   }
 
-  async getIntegrations(): Promise<Integration[]> {
-    const result = await pool.query('SELECT i.*, p.name as platform_name FROM integrations i JOIN platforms p ON i.platform_id = p.id WHERE i.is_active = true ORDER BY p.name, i.name');
+  /**
+   * Makes an earlier version current again by saving it as a new version, so the
+   * history keeps every definition jobs may have used.
+   */
+  async rollbackIntegration(name: string, version: number, note?: string): Promise<number> {
+    const target = await this.getIntegrationVersion(name, version);
+    if (!target) {
+      throw new ValidationError('Integration version not found', { integration: name, version });
+    }
+    const current = await this.getIntegrationByName(name, true);
+    return this.upsertIntegration(
+      { ...target, is_active: current?.is_active ?? true },
+      note ?? `Rolled back to version ${version}`
+    );
+  }
+
+  async setIntegrationActive(name: string, isActive: boolean): Promise<void> {
+    const result = await pool.query('UPDATE integrations SET is_active = $2 WHERE name = $1', [name, isActive]);
+    if (result.rowCount === 0) {
+      throw new ValidationError('Integration not found', { integration: name });
+    }
+    this.activeIntegrations = null;
+  }
+
+  async getPlatformId(name: string): Promise<number | null> {
+    const result = await pool.query('SELECT id FROM platforms WHERE name = $1', [name]);
+    return result.rows[0]?.id ?? null;
+  }
+
+  // Re-importing a day replaces its rate; the whole file commits or none of it does
+  async importFxRates(rates: FxRate[], source: string): Promise<number> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const unique = lastByKey(rates, rate => `${rate.base_currency}:${rate.quote_currency}:${rate.rate_date}`);
+      for (const rows of chunk(unique, 1000)) {
+        const values = valuesClause(rows.map(rate => [rate.base_currency, rate.quote_currency, rate.rate_date, rate.rate, source]));
+        await client.query(
+          `INSERT INTO fx_rates (base_currency, quote_currency, rate_date, rate, source)
+           VALUES ${values.text}
+           ON CONFLICT (base_currency, quote_currency, rate_date) DO UPDATE SET
+             rate = EXCLUDED.rate,
+             source = EXCLUDED.source,
+             imported_at = CURRENT_TIMESTAMP`,
+          values.params
+        );
+      }
+      await client.query('COMMIT');
+      return unique.length;
+    } catch (error: unknown) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw new DatabaseError('Failed to import exchange rates', { originalError: error, source });
+    } finally {
+      client.release();
+    }
+  }
+
+  async getFxRatePairs(): Promise<FxRatePair[]> {
+    const result = await pool.query(
+      `SELECT base_currency, quote_currency,
+              TO_CHAR(MIN(rate_date), 'YYYY-MM-DD') as first_date,
+              TO_CHAR(MAX(rate_date), 'YYYY-MM-DD') as last_date,
+              COUNT(*)::int as days,
+              MAX(imported_at) as last_imported_at
+       FROM fx_rates
+       GROUP BY base_currency, quote_currency
+       ORDER BY base_currency, quote_currency`
+    );
     return result.rows;
   }
 
@@ -348,11 +1493,21 @@ export class Database {
       Logger.info('Clearing database...');
       
       // Clear tables in order to respect foreign key constraints
+      await pool.query('TRUNCATE TABLE order_history CASCADE');
+      await pool.query('TRUNCATE TABLE restaurant_merges CASCADE');
+      await pool.query('TRUNCATE TABLE restaurant_aliases CASCADE');
+      await pool.query('TRUNCATE TABLE restaurant_matches CASCADE');
+      await pool.query('TRUNCATE TABLE restaurant_locations CASCADE');
+      await pool.query('TRUNCATE TABLE locations CASCADE');
+      await pool.query('TRUNCATE TABLE brands CASCADE');
+      await pool.query('TRUNCATE TABLE job_changes CASCADE');
+      await pool.query('TRUNCATE TABLE quarantined_records CASCADE');
       await pool.query('TRUNCATE TABLE data_source_files CASCADE');
       await pool.query('TRUNCATE TABLE ingestion_jobs CASCADE');
       await pool.query('TRUNCATE TABLE ratings CASCADE');
       await pool.query('TRUNCATE TABLE orders CASCADE');
       await pool.query('TRUNCATE TABLE restaurants CASCADE');
+      await pool.query('TRUNCATE TABLE integration_versions CASCADE');
       await pool.query('TRUNCATE TABLE integrations CASCADE');
       await pool.query('TRUNCATE TABLE platforms CASCADE');
       
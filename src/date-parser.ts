@@ -0,0 +1,260 @@
+export const DEFAULT_TIMEZONE = 'UTC';
+
+// Tried in order when a field declares no format of its own
+const DEFAULT_FORMATS = [
+  'YYYY-MM-DD[T]HH:mm:ss.SSSZ',
+  'YYYY-MM-DD[T]HH:mm:ssZ',
+  'YYYY-MM-DD[T]HH:mm:ss.SSS',
+  'YYYY-MM-DD[T]HH:mm:ss',
+  'YYYY-MM-DD[T]HH:mm',
+  'YYYY-MM-DD HH:mm:ss',
+  'YYYY-MM-DD HH:mm',
+  'YYYY-MM-DD',
+  'D/M/YYYY H:mm:ss',
+  'D/M/YYYY H:mm',
+  'D/M/YYYY'
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+type DatePart = 'year' | 'month' | 'day' | 'hour' | 'minute' | 'second' | 'millisecond' | 'meridiem' | 'offset';
+
+const TOKENS: Record<string, { part: DatePart; pattern: string }> = {
+  YYYY: { part: 'year', pattern: '(\\d{4})' },
+  YY: { part: 'year', pattern: '(\\d{2})' },
+  MMMM: { part: 'month', pattern: '([A-Za-z]{3,9})' },
+  MMM: { part: 'month', pattern: '([A-Za-z]{3})' },
+  MM: { part: 'month', pattern: '(\\d{2})' },
+  M: { part: 'month', pattern: '(\\d{1,2})' },
+  DD: { part: 'day', pattern: '(\\d{2})' },
+  D: { part: 'day', pattern: '(\\d{1,2})' },
+  HH: { part: 'hour', pattern: '(\\d{2})' },
+  H: { part: 'hour', pattern: '(\\d{1,2})' },
+  hh: { part: 'hour', pattern: '(\\d{2})' },
+  h: { part: 'hour', pattern: '(\\d{1,2})' },
+  mm: { part: 'minute', pattern: '(\\d{2})' },
+  ss: { part: 'second', pattern: '(\\d{2})' },
+  SSS: { part: 'millisecond', pattern: '(\\d{3})' },
+  A: { part: 'meridiem', pattern: '([AaPp][Mm])' },
+  a: { part: 'meridiem', pattern: '([AaPp][Mm])' },
+  Z: { part: 'offset', pattern: '(Z|[+-]\\d{2}:?\\d{2})' }
+};
+
+// Longest tokens first so 'YYYY' isn't read as two 'YY'; [text] is a literal
+const TOKEN_PATTERN = /\[[^\]]*\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|HH|H|hh|h|mm|ss|SSS|A|a|Z/g;
+
+interface CompiledFormat {
+  regex: RegExp;
+  parts: Array<{ token: string; part: DatePart }>;
+}
+
+export interface DateParseOptions {
+  // IANA zone the source wrote its wall-clock times in; ignored when the value carries an offset
+  timezone?: string;
+  formats?: string | string[];
+}
+
+/**
+ * Parses dates against explicit format patterns (DD/MM/YYYY HH:mm:ss, YYYY-MM-DD, ...)
+ * and converts wall-clock times in a source timezone to instants, independent of the
+ * timezone of the machine running the load.
+ */
+export class DateParser {
+  private static compiled = new Map<string, CompiledFormat>();
+  private static formatters = new Map<string, Intl.DateTimeFormat>();
+
+  static isValidTimezone(timezone: string): boolean {
+    if (typeof timezone !== 'string' || timezone === '') return false;
+    try {
+      new Intl.DateTimeFormat('en-GB', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  static validateFormat(format: string): string[] {
+    if (typeof format !== 'string' || format.trim() === '') {
+      return ['format must be a non-empty string'];
+    }
+
+    const problems: string[] = [];
+    const { parts } = DateParser.compile(format);
+    const seen = parts.map(p => p.part);
+
+    for (const required of ['year', 'month', 'day'] as DatePart[]) {
+      if (!seen.includes(required)) {
+        problems.push(`format '${format}' has no ${required} token`);
+      }
+    }
+    const duplicates = seen.filter((part, i) => seen.indexOf(part) !== i);
+    if (duplicates.length > 0) {
+      problems.push(`format '${format}' repeats ${[...new Set(duplicates)].join(', ')}`);
+    }
+    const twelveHour = parts.some(p => p.token === 'hh' || p.token === 'h');
+    if (twelveHour !== seen.includes('meridiem')) {
+      problems.push(`format '${format}' must use hh/h together with A/a, or HH/H without them`);
+    }
+
+    return problems;
+  }
+
+  /**
+   * Returns null for an empty value or one that matches none of the formats. Without
+   * explicit formats a small set of ISO and UK patterns is tried.
+   */
+  static parse(value: string, options: DateParseOptions = {}): Date | null {
+    if (!value || typeof value !== 'string' || value.trim() === '') return null;
+
+    const formats = options.formats === undefined
+      ? DEFAULT_FORMATS
+      : Array.isArray(options.formats) ? options.formats : [options.formats];
+    const timezone = options.timezone || DEFAULT_TIMEZONE;
+
+    for (const format of formats) {
+      const date = DateParser.parseWith(value.trim(), format, timezone);
+      if (date) return date;
+    }
+    return null;
+  }
+
+  // Converts a wall-clock time in the given zone to an instant
+  static fromZonedParts(
+    year: number, month: number, day: number,
+    hour: number, minute: number, second: number, millisecond: number,
+    timezone: string
+  ): Date {
+    const wall = Date.UTC(year, month - 1, day, hour, minute, second, millisecond);
+
+    // The zone's offsets either side of the time; they differ only around a DST change
+    const DAY = 24 * 60 * 60 * 1000;
+    const offsets = [...new Set([DateParser.offsetAt(wall - DAY, timezone), DateParser.offsetAt(wall + DAY, timezone)])]
+      .sort((a, b) => b - a);
+
+    // A repeated (fall-back) time resolves to its first occurrence
+    for (const offset of offsets) {
+      if (DateParser.offsetAt(wall - offset, timezone) === offset) {
+        return new Date(wall - offset);
+      }
+    }
+    // A skipped (spring-forward) time is moved forward by the size of the gap
+    return new Date(wall - Math.min(...offsets));
+  }
+
+  // Renders an instant as 'YYYY-MM-DD HH:mm:ss' in the given zone
+  static format(date: Date, timezone: string = DEFAULT_TIMEZONE): string {
+    const p = DateParser.zonedParts(date.getTime(), timezone);
+    const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+    return `${pad(p.year, 4)}-${pad(p.month)}-${pad(p.day)} ${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}`;
+  }
+
+  private static parseWith(value: string, format: string, timezone: string): Date | null {
+    const { regex, parts } = DateParser.compile(format);
+    const match = value.match(regex);
+    if (!match) return null;
+
+    const values: Partial<Record<DatePart, string>> = {};
+    parts.forEach((p, i) => values[p.part] = match[i + 1]);
+
+    let year = parseInt(values.year!, 10);
+    if (values.year!.length === 2) year += 2000;
+
+    let month: number;
+    if (/^\d+$/.test(values.month!)) {
+      month = parseInt(values.month!, 10);
+    } else {
+      month = MONTHS.indexOf(values.month!.slice(0, 3).toLowerCase()) + 1;
+      if (month === 0) return null;
+    }
+
+    const day = parseInt(values.day!, 10);
+    let hour = values.hour !== undefined ? parseInt(values.hour, 10) : 0;
+    const minute = values.minute !== undefined ? parseInt(values.minute, 10) : 0;
+    const second = values.second !== undefined ? parseInt(values.second, 10) : 0;
+    const millisecond = values.millisecond !== undefined ? parseInt(values.millisecond, 10) : 0;
+
+    if (values.meridiem !== undefined) {
+      if (hour < 1 || hour > 12) return null;
+      const pm = values.meridiem.toLowerCase() === 'pm';
+      hour = (hour % 12) + (pm ? 12 : 0);
+    }
+
+    if (month < 1 || month > 12 || hour > 23 || minute > 59 || second > 59) return null;
+    // Rejects 31/02 and similar, which Date.UTC would roll into the next month
+    const check = new Date(Date.UTC(year, month - 1, day));
+    if (check.getUTCFullYear() !== year || check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) {
+      return null;
+    }
+
+    if (values.offset !== undefined) {
+      const wall = Date.UTC(year, month - 1, day, hour, minute, second, millisecond);
+      return new Date(wall - DateParser.parseOffset(values.offset));
+    }
+    return DateParser.fromZonedParts(year, month, day, hour, minute, second, millisecond, timezone);
+  }
+
+  private static compile(format: string): CompiledFormat {
+    const cached = DateParser.compiled.get(format);
+    if (cached) return cached;
+
+    const parts: CompiledFormat['parts'] = [];
+    let source = '';
+    let last = 0;
+    for (const match of format.matchAll(TOKEN_PATTERN)) {
+      source += DateParser.literal(format.slice(last, match.index));
+      const token = match[0];
+      if (token.startsWith('[')) {
+        source += DateParser.literal(token.slice(1, -1));
+      } else {
+        source += TOKENS[token].pattern;
+        parts.push({ token, part: TOKENS[token].part });
+      }
+      last = match.index! + token.length;
+    }
+    source += DateParser.literal(format.slice(last));
+
+    const compiled = { regex: new RegExp(`^${source}$`), parts };
+    DateParser.compiled.set(format, compiled);
+    return compiled;
+  }
+
+  // Escapes literal text, letting a space match any run of whitespace
+  private static literal(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ +/g, '\\s+');
+  }
+
+  private static parseOffset(offset: string): number {
+    if (offset === 'Z') return 0;
+    const sign = offset.startsWith('-') ? -1 : 1;
+    const digits = offset.slice(1).replace(':', '');
+    return sign * (parseInt(digits.slice(0, 2), 10) * 60 + parseInt(digits.slice(2), 10)) * 60 * 1000;
+  }
+
+  // Milliseconds the zone is ahead of UTC at the given instant
+  private static offsetAt(instant: number, timezone: string): number {
+    const p = DateParser.zonedParts(instant, timezone);
+    const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    return asUtc - (instant - (((instant % 1000) + 1000) % 1000));
+  }
+
+  private static zonedParts(instant: number, timezone: string) {
+    let formatter = DateParser.formatters.get(timezone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-GB', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric', month: '2-digit', day: '2-digit',
+        hour: '2-digit', minute: '2-digit', second: '2-digit'
+      });
+      DateParser.formatters.set(timezone, formatter);
+    }
+
+    const parts = formatter.formatToParts(new Date(instant));
+    const get = (type: Intl.DateTimeFormatPartTypes) =>
+      parseInt(parts.find(part => part.type === type)!.value, 10);
+    return {
+      year: get('year'), month: get('month'), day: get('day'),
+      hour: get('hour'), minute: get('minute'), second: get('second')
+    };
+  }
+}
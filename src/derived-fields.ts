@@ -0,0 +1,100 @@
+import { DeriveFunction, FieldMap } from './types.js';
+import { DataTransforms } from './transforms.js';
+import { DateParser, DEFAULT_TIMEZONE } from './date-parser.js';
+import { NumberParser, DEFAULT_NUMBER_LOCALE } from './number-parser.js';
+import { ProcessingError } from './utils.js';
+
+const DERIVE_FUNCTIONS: DeriveFunction[] = ['datetime', 'sum', 'coalesce', 'concat'];
+
+export interface DerivedValue {
+  // Source values as seen in the file, for reporting
+  raw: string;
+  // Set for 'datetime' and 'sum', which produce the final value themselves; a sum is exact decimal text
+  value?: any;
+  // 'coalesce' and 'concat' produce a string that still goes through type/transform
+  needsTransform: boolean;
+}
+
+export class DerivedFields {
+  static isDerived(fieldMap: FieldMap): boolean {
+    return Array.isArray(fieldMap.sources);
+  }
+
+  // File columns a mapping reads: derived entries contribute their sources instead of their key
+  static sourceColumns(fieldMapping: Record<string, FieldMap>): string[] {
+    const columns = new Set<string>();
+    for (const [key, fieldMap] of Object.entries(fieldMapping)) {
+      (DerivedFields.isDerived(fieldMap) ? fieldMap.sources! : [key]).forEach(column => columns.add(column));
+    }
+    return [...columns];
+  }
+
+  static validate(fieldMapping: Record<string, FieldMap>): string[] {
+    const problems: string[] = [];
+
+    for (const [key, fieldMap] of Object.entries(fieldMapping)) {
+      if (fieldMap.derive === undefined && fieldMap.sources === undefined) continue;
+
+      if (!fieldMap.derive || !DERIVE_FUNCTIONS.includes(fieldMap.derive)) {
+        problems.push(`'${key}': derive must be one of ${DERIVE_FUNCTIONS.join(', ')}`);
+      }
+      if (!Array.isArray(fieldMap.sources) || fieldMap.sources.length === 0 ||
+          fieldMap.sources.some(source => typeof source !== 'string' || source === '')) {
+        problems.push(`'${key}': sources must be a non-empty array of column names`);
+        continue;
+      }
+      if (fieldMap.derive === 'datetime' && fieldMap.sources.length !== 2) {
+        problems.push(`'${key}': datetime takes exactly two sources, [date column, time column]`);
+      }
+    }
+
+    return problems;
+  }
+
+  static derive(record: Record<string, string>, key: string, fieldMap: FieldMap, timezone: string = DEFAULT_TIMEZONE, locale: string = DEFAULT_NUMBER_LOCALE): DerivedValue {
+    const values = fieldMap.sources!.map(source => (record[source] ?? '').trim());
+    const present = values.filter(value => value !== '');
+    const raw = present.join(' ');
+
+    switch (fieldMap.derive) {
+      case 'datetime': {
+        const [dateValue, timeValue] = values;
+        if (!dateValue) return { raw, value: null, needsTransform: false };
+        // An explicit format is matched against "<date> <time>"
+        const date = fieldMap.format !== undefined
+          ? DateParser.parse(present.join(' '), { formats: fieldMap.format, timezone })
+          : DataTransforms.combineDateTime(dateValue, timeValue, timezone);
+        if (!date) {
+          throw new ProcessingError('Invalid date/time combination', { field: key, dateValue, timeValue });
+        }
+        return { raw, value: date, needsTransform: false };
+      }
+
+      case 'sum': {
+        if (present.length === 0) return { raw, value: null, needsTransform: false };
+        let total = '0';
+        fieldMap.sources!.forEach((source, i) => {
+          if (values[i] === '') return;
+          try {
+            total = NumberParser.add(total, NumberParser.parse(values[i], locale)!);
+          } catch (error: unknown) {
+            if (error instanceof ProcessingError) {
+              throw new ProcessingError('Invalid number in sum', { ...error.context, field: key, column: source });
+            }
+            throw error;
+          }
+        });
+        return { raw, value: total, needsTransform: false };
+      }
+
+      case 'coalesce':
+        return { raw: present[0] ?? '', needsTransform: true };
+
+      case 'concat':
+        return { raw: present.join(fieldMap.separator ?? ' '), needsTransform: true };
+
+      default:
+        throw new ProcessingError('Unknown derive function', { field: key, derive: fieldMap.derive });
+    }
+  }
+}
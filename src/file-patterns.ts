@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ValidationError } from './utils.js';
+
+const PATTERN_CHARS = /[*?{]/;
+
+/**
+ * Expands the file arguments of a multi-file load. Plain paths pass through untouched;
+ * patterns support `*`, `?`, `**` and `{a,b}`, for quoted globs the shell left alone.
+ */
+export class FilePatterns {
+  static isPattern(argument: string): boolean {
+    return PATTERN_CHARS.test(argument);
+  }
+
+  // Each path once, in argument order; a pattern's own matches are sorted
+  static async expand(patterns: string[]): Promise<string[]> {
+    const paths = new Set<string>();
+    for (const pattern of patterns) {
+      if (!FilePatterns.isPattern(pattern)) {
+        paths.add(pattern);
+        continue;
+      }
+      const matches = await FilePatterns.match(pattern);
+      if (matches.length === 0) {
+        throw new ValidationError('No files match pattern', { pattern });
+      }
+      matches.forEach(match => paths.add(match));
+    }
+    return [...paths];
+  }
+
+  private static async match(pattern: string): Promise<string[]> {
+    const segments = pattern.split(/[\\/]/);
+    const firstPattern = segments.findIndex(segment => FilePatterns.isPattern(segment));
+    const base = segments.slice(0, firstPattern).join('/') || (pattern.startsWith('/') ? '/' : '.');
+    const rest = segments.slice(firstPattern);
+    const regex = FilePatterns.toRegex(rest.join('/'));
+
+    // Only `**` or a pattern spanning directories needs more than the base directory's own entries
+    const recursive = rest.length > 1 || rest[0].includes('**');
+    const entries = await fs.promises.readdir(base, { recursive }).catch(() => [] as string[]);
+    const matches: string[] = [];
+    for (const entry of entries.map(String).sort()) {
+      if (!regex.test(entry.split(path.sep).join('/'))) continue;
+      const file = base === '.' && !pattern.startsWith('./') ? entry : path.join(base, entry);
+      const stat = await fs.promises.stat(file).catch(() => null);
+      if (stat?.isFile()) matches.push(file);
+    }
+    return matches;
+  }
+
+  private static toRegex(pattern: string): RegExp {
+    let source = '';
+    let braces = 0;
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+      if (char === '*' && pattern[i + 1] === '*') {
+        // "**/" also matches no directory at all
+        const slash = pattern[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else if (char === '*') {
+        source += '[^/]*';
+      } else if (char === '?') {
+        source += '[^/]';
+      } else if (char === '{') {
+        braces++;
+        source += '(?:';
+      } else if (char === '}' && braces > 0) {
+        braces--;
+        source += ')';
+      } else if (char === ',' && braces > 0) {
+        source += '|';
+      } else {
+        source += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+      }
+    }
+    return new RegExp(`^${source}$`);
+  }
+}
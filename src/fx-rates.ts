@@ -0,0 +1,100 @@
+import { CSVReader } from './csv-reader.js';
+import { InputFiles } from './input-files.js';
+import { IntegrationDetector } from './integration-detector.js';
+import { FxRate } from './types.js';
+import { ValidationError } from './utils.js';
+
+export const DEFAULT_REPORTING_CURRENCY = 'GBP';
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DECIMAL = /^\d+(\.\d+)?$/;
+// Wide files leave gaps where a currency wasn't quoted that day
+const NO_RATE = new Set(['', 'n/a', 'na', '-']);
+
+// Long-format columns, matched after header normalisation
+const LONG_COLUMNS = {
+  date: ['date', 'rate date'],
+  base: ['base', 'base currency', 'from'],
+  quote: ['quote', 'quote currency', 'to'],
+  rate: ['rate']
+};
+
+/**
+ * Reads daily exchange rates from CSV and formats amounts in a currency. A rates file is
+ * either long, one rate per row (date, base, quote, rate), or wide like the ECB history
+ * file: a date column and one column per quote currency, against a base named on import.
+ */
+export class FxRates {
+  static isCurrencyCode(code: string): boolean {
+    return CURRENCY_CODE.test(code);
+  }
+
+  static format(amount: number, currency: string): string {
+    return new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(amount);
+  }
+
+  // Rows that can't be read are returned as problems, by line, rather than stopping the import
+  static async readFile(path: string, base?: string): Promise<{ rates: FxRate[]; problems: string[] }> {
+    const files = await InputFiles.open(path);
+    if (files.length !== 1) {
+      throw new ValidationError('Rates must be a single CSV file', { path, members: files.map(file => file.name) });
+    }
+    if (base !== undefined && !FxRates.isCurrencyCode(base)) {
+      throw new ValidationError('Base currency must be a three-letter ISO code', { base });
+    }
+
+    const records = new CSVReader(files[0]).records();
+    const first = await records.next();
+    if (first.done) {
+      throw new ValidationError('Rates file is empty', { path });
+    }
+    const headers = first.value.fields.map(header => IntegrationDetector.normaliseHeader(header));
+    const column = (names: string[]) => headers.findIndex(header => names.includes(header));
+    const columns = { date: column(LONG_COLUMNS.date), base: column(LONG_COLUMNS.base), quote: column(LONG_COLUMNS.quote), rate: column(LONG_COLUMNS.rate) };
+    const isLong = columns.base >= 0 && columns.quote >= 0 && columns.rate >= 0;
+
+    if (columns.date < 0) {
+      throw new ValidationError('Rates file has no date column', { path, headers: first.value.fields });
+    }
+    // Wide: every other column headed by a currency code
+    const quotes = first.value.fields
+      .map((header, index) => ({ code: header.trim().toUpperCase(), index }))
+      .filter(({ code, index }) => index !== columns.date && FxRates.isCurrencyCode(code));
+    if (!isLong && quotes.length === 0) {
+      throw new ValidationError('Rates file needs base, quote and rate columns, or one column per currency', { path, headers: first.value.fields });
+    }
+    if (!isLong && !base) {
+      throw new ValidationError('A file with one column per currency needs the base currency they are quoted against (--base)', { path });
+    }
+
+    const rates: FxRate[] = [];
+    const problems: string[] = [];
+    for await (const { fields, line } of { [Symbol.asyncIterator]: () => records }) {
+      const rateDate = (fields[columns.date] || '').trim();
+      // The round trip rejects dates like 2024-02-30 that Date would roll over
+      if (!ISO_DATE.test(rateDate) || isNaN(Date.parse(rateDate)) || new Date(rateDate).toISOString().slice(0, 10) !== rateDate) {
+        problems.push(`line ${line}: date '${rateDate}' is not a valid YYYY-MM-DD date`);
+        continue;
+      }
+
+      const candidates = isLong
+        ? [{ base: (fields[columns.base] || '').trim().toUpperCase(), quote: (fields[columns.quote] || '').trim().toUpperCase(), rate: (fields[columns.rate] || '').trim() }]
+        : quotes.map(({ code, index }) => ({ base: base!, quote: code, rate: (fields[index] || '').trim() }));
+
+      for (const candidate of candidates) {
+        if (!isLong && NO_RATE.has(candidate.rate.toLowerCase())) continue;
+        if (!FxRates.isCurrencyCode(candidate.base) || !FxRates.isCurrencyCode(candidate.quote)) {
+          problems.push(`line ${line}: '${candidate.base}' / '${candidate.quote}' is not a pair of currency codes`);
+        } else if (candidate.base === candidate.quote) {
+          problems.push(`line ${line}: ${candidate.base} is quoted against itself`);
+        } else if (!DECIMAL.test(candidate.rate) || Number(candidate.rate) <= 0) {
+          problems.push(`line ${line}: ${candidate.base}/${candidate.quote} rate '${candidate.rate}' is not a positive decimal`);
+        } else {
+          rates.push({ base_currency: candidate.base, quote_currency: candidate.quote, rate_date: rateDate, rate: candidate.rate });
+        }
+      }
+    }
+    return { rates, problems };
+  }
+}
@@ -0,0 +1,202 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { IngestionEngine } from './ingestion-engine.js';
+import { ProcessResult, WatchOptions } from './types.js';
+import { ValidationError, Logger } from './utils.js';
+import { SchemaDriftCheck } from './schema-drift.js';
+
+const DEFAULT_INTERVAL_MS = 5000;
+const DEFAULT_SETTLE_MS = 10000;
+
+type Destination = 'processed' | 'failed' | 'duplicate';
+const DESTINATIONS: Destination[] = ['processed', 'failed', 'duplicate'];
+
+// Partial downloads and editor lock files that must never be picked up
+const IGNORED_FILE = /^(\.|~\$)|\.(tmp|part|partial|crdownload|swp)$/i;
+
+// Connection-level failures: the file is fine and is retried on a later scan
+const TRANSIENT_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EPIPE', '57P01', '57P03', '08000', '08003', '08006']);
+
+interface Candidate {
+  size: number;
+  mtimeMs: number;
+  // When size and mtime were last seen to change
+  changedAt: number;
+}
+
+/**
+ * Polls an inbox directory and loads each file once it has stopped changing. Files
+ * are moved out of the inbox when done, so a restart only sees files that still need
+ * loading; a file that was loaded but not moved before a crash is recognised by its
+ * data_source_files entry and filed as processed.
+ */
+export class InboxWatcher {
+  private candidates = new Map<string, Candidate>();
+  private stopping = false;
+  private wake?: () => void;
+  private readonly inbox: string;
+  private readonly logPath: string;
+
+  // Absolute paths, so data_source_files records the same path whatever directory the watcher runs from
+  constructor(private engine: IngestionEngine, inbox: string, private options: WatchOptions = {}) {
+    this.inbox = path.resolve(inbox);
+    this.logPath = path.resolve(options.logPath || path.join(this.inbox, 'watch.log'));
+  }
+
+  async run(): Promise<void> {
+    const stat = await fs.promises.stat(this.inbox).catch(() => null);
+    if (!stat?.isDirectory()) {
+      throw new ValidationError('Inbox is not a directory', { inbox: this.inbox });
+    }
+    for (const destination of DESTINATIONS) {
+      await fs.promises.mkdir(path.join(this.inbox, destination), { recursive: true });
+    }
+
+    Logger.info(`Watching ${this.inbox} (summaries in ${this.logPath})`);
+    while (!this.stopping) {
+      for (const file of await this.readyFiles()) {
+        if (this.stopping) break;
+        await this.ingest(file);
+      }
+      await this.sleep(this.options.intervalMs ?? DEFAULT_INTERVAL_MS);
+    }
+    Logger.info('Watcher stopped');
+  }
+
+  // The file being loaded, if any, finishes first
+  stop(): void {
+    this.stopping = true;
+    this.wake?.();
+  }
+
+  private async readyFiles(): Promise<string[]> {
+    const now = Date.now();
+    const settleMs = this.options.settleMs ?? DEFAULT_SETTLE_MS;
+    const seen = new Set<string>();
+    const ready: string[] = [];
+
+    for (const entry of await fs.promises.readdir(this.inbox, { withFileTypes: true })) {
+      const file = path.join(this.inbox, entry.name);
+      if (!entry.isFile() || IGNORED_FILE.test(entry.name) || file === this.logPath) continue;
+
+      const stat = await fs.promises.stat(file).catch(() => null);
+      if (!stat) continue;
+      seen.add(file);
+
+      const previous = this.candidates.get(file);
+      if (!previous || previous.size !== stat.size || previous.mtimeMs !== stat.mtimeMs) {
+        this.candidates.set(file, { size: stat.size, mtimeMs: stat.mtimeMs, changedAt: now });
+      } else if (now - previous.changedAt >= settleMs && stat.size > 0) {
+        ready.push(file);
+      }
+    }
+
+    for (const file of this.candidates.keys()) {
+      if (!seen.has(file)) this.candidates.delete(file);
+    }
+    return ready.sort();
+  }
+
+  private async ingest(file: string): Promise<void> {
+    const startedAt = Date.now();
+    try {
+      const result = await this.engine.processFile(file, undefined, this.options);
+      const destination = await this.destinationFor(file, result);
+      const movedTo = await this.move(file, destination);
+      await this.log(file, destination, {
+        integration: result.integration,
+        job: result.jobId ?? result.duplicateOf?.job_id,
+        files: result.members?.length,
+        rows: result.totalRows,
+        loaded: result.processed,
+        skipped: result.skipped,
+        quarantined: result.errors,
+        seconds: ((Date.now() - startedAt) / 1000).toFixed(1),
+        drift: result.drift && SchemaDriftCheck.hasDrift(result.drift) ? SchemaDriftCheck.describe(result.drift) : undefined,
+        to: movedTo
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (this.isTransient(error)) {
+        // Leave the file in the inbox; the next scan retries it
+        Logger.warn(`Database unavailable while loading ${path.basename(file)}, will retry: ${message}`);
+        this.candidates.delete(file);
+        return;
+      }
+      Logger.error(`Failed to load ${path.basename(file)}`, error as Error);
+      const movedTo = await this.move(file, 'failed');
+      await this.log(file, 'failed', { error: message, to: movedTo });
+    }
+  }
+
+  private async destinationFor(file: string, result: ProcessResult): Promise<Destination> {
+    if (result.status === 'duplicate') {
+      // Loaded from this very path before a restart, but never moved out of the inbox. A copy
+      // dropped under the same name after the first was filed is a duplicate like any other
+      const loadedFrom = result.duplicateOf && (result.duplicateOf.archive_path || result.duplicateOf.file_path);
+      if (!loadedFrom || path.resolve(loadedFrom) !== file) return 'duplicate';
+      return await this.wasFiled(file, result.duplicateOf!.job_id) ? 'duplicate' : 'processed';
+    }
+    return result.status === 'failed' ? 'failed' : 'processed';
+  }
+
+  // Whether the file's earlier load was moved out of the inbox: logged for its job, or already in processed/
+  private async wasFiled(file: string, jobId?: number): Promise<boolean> {
+    const processed = path.join(this.inbox, 'processed', path.basename(file));
+    if (await fs.promises.access(processed).then(() => true, () => false)) return true;
+    if (jobId === undefined) return false;
+
+    const log = await fs.promises.readFile(this.logPath, 'utf8').catch(() => '');
+    const filedLine = new RegExp(`^\\S+ (?!duplicate)\\S+ .* job=${jobId}(?: |$)`, 'm');
+    return filedLine.test(log);
+  }
+
+  private async move(file: string, destination: Destination): Promise<string> {
+    const directory = path.join(this.inbox, destination);
+    const { name, ext } = path.parse(file);
+    let target = path.join(directory, `${name}${ext}`);
+
+    // Never overwrite an earlier file of the same name
+    if (await fs.promises.access(target).then(() => true, () => false)) {
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      target = path.join(directory, `${name}.${stamp}${ext}`);
+    }
+
+    await fs.promises.rename(file, target);
+    this.candidates.delete(file);
+    return target;
+  }
+
+  private async log(file: string, outcome: Destination, details: Record<string, unknown>): Promise<void> {
+    const fields = Object.entries(details)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => `${key}=${typeof value === 'string' && /\s/.test(value) ? JSON.stringify(value) : value}`);
+    const line = [new Date().toISOString(), outcome.padEnd(9), path.basename(file), ...fields].join(' ');
+
+    await fs.promises.appendFile(this.logPath, line + '\n');
+    if (outcome === 'processed') {
+      Logger.success(line);
+    } else {
+      Logger.warn(line);
+    }
+  }
+
+  private isTransient(error: unknown): boolean {
+    // processFile wraps failures, so walk the originalError chain
+    for (let current: any = error, depth = 0; current && depth < 5; depth++) {
+      if (TRANSIENT_CODES.has(current.code)) return true;
+      current = current.context?.originalError ?? current.originalError;
+    }
+    return false;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(resolve, ms);
+      this.wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+}
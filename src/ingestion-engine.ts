@@ -1,15 +1,64 @@
 import * as fs from 'fs';
-import * as crypto from 'crypto';
-import * as readline from 'readline';
-import { Database } from './database.js';
-import { Integration, FieldMap, OrderData, OrderStatus } from './types.js';
-import { DataTransforms } from './transforms.js';
-import { ProcessingError, ValidationError, Validators, Logger } from './utils.js';
+import type { PoolClient } from 'pg';
+import { Database, Queryable } from './database.js';
+import { Integration, ProcessResult, FieldMap, FieldTransform, TransformContext, OrderData, StatusDecision, JobStatus, LoadOptions, SourceOptions, Rating, ValidationReport, IntegrationMatch, DetectionResult, SchemaDrift, IngestionJob, FileOutcome } from './types.js';
+import { TransformRegistry } from './transforms.js';
+import { openSource } from './source-readers.js';
+import { InputFile, InputFiles } from './input-files.js';
+import { StatusRules } from './status-rules.js';
+import { DerivedFields } from './derived-fields.js';
+import { IntegrationDetector } from './integration-detector.js';
+import { SchemaDriftCheck } from './schema-drift.js';
+import { DateParser, DEFAULT_TIMEZONE } from './date-parser.js';
+import { NumberParser, DEFAULT_NUMBER_LOCALE } from './number-parser.js';
+import { FxRates } from './fx-rates.js';
+import { ProcessingError, ValidationError, DatabaseError, Validators, Logger, serializeErrorContext } from './utils.js';
+
+const DEFAULT_BATCH_SIZE = 500;
+// Each load holds a pooled connection throughout and borrows another for progress writes; the pool has 20
+export const MAX_CONCURRENCY = 8;
+// How often a running job writes its counters and heartbeat to ingestion_jobs
+const PROGRESS_INTERVAL_MS = 5000;
+// Caps the per-row error list in validation reports
+const MAX_REPORTED_ERRORS = 20;
+// Example lines kept per status rule in validation reports
+const MAX_RULE_SAMPLE_LINES = 5;
+// How long a load transaction waits for rows or restaurants another load holds
+const LOCK_TIMEOUT_MS = 10000;
+// Waits on another load's locks: deadlock, lock_timeout, statement_timeout; these fail the job, not the row
+const LOCK_CONFLICT_CODES = new Set(['40P01', '55P03', '57014']);
+// DECIMAL(10,2) targets, written as decimal text so no amount passes through floating point
+const MONEY_TARGETS = ['order_value', 'discount_amount'];
+
+type TransformOutcome = { record: any; skipReason?: undefined; statusRule?: string } | { record: null; skipReason: string };
+
+// Called with each mapped column's raw and transformed value, used by dry runs to collect field statistics
+type FieldObserver = (csvField: string, raw: string | undefined, value: any) => void;
+
+function isMissingValue(value: any): boolean {
+  return value === null || value === undefined || 
+    (typeof value === 'number' && isNaN(value)) || 
+    (value instanceof Date && isNaN(value.getTime()));
+}
+
+interface PendingRecord {
+  line: number;
+  raw: Record<string, string>;
+  transformed: any;
+}
+
+// Per-job state shared by the bulk and row-by-row load paths
+interface LoadContext {
+  client: Queryable;
+  restaurantIds: Map<string, number>;
+  // Job recorded as the last writer of every row the load touches
+  jobId: number;
+}
 
 export class IngestionEngine {
   constructor(private db: Database) {}
 
-  async processFile(path: string, integrationKey?: string): Promise<void> {
+  async processFile(path: string, integrationKey?: string, options: LoadOptions = {}): Promise<ProcessResult> {
     try {
       if (!Validators.isValidFilePath(path)) {
         throw new ValidationError('Invalid file path', { path });
@@ -19,13 +68,20 @@ export class IngestionEngine {
         throw new ValidationError('Invalid integration key', { integrationKey });
       }
 
+      if (options.batchSize !== undefined && (!Number.isInteger(options.batchSize) || options.batchSize < 1)) {
+        throw new ValidationError('Batch size must be a positive integer', { batchSize: options.batchSize });
+      }
+
       Logger.info(`Processing file: ${path}`);
       
-      const hash = await this.hash(path);
-      const result = await this.stream(path, hash, integrationKey);
+      const files = await InputFiles.open(path, options.member);
+      const result = files[0].archive
+        ? await this.processArchive(path, files, integrationKey, options)
+        : await this.stream(files[0], await InputFiles.hash(files[0]), integrationKey, options);
       
-      Logger.info(`Processed ${result.processed} records, skipped ${result.skipped}`);
+      Logger.info(`Processed ${result.processed} records, skipped ${result.skipped}, quarantined ${result.errors}`);
       Logger.success('File processing completed successfully');
+      return result;
     } catch (error: unknown) {
       if (error instanceof ValidationError || error instanceof ProcessingError) {
         throw error;
@@ -34,158 +90,827 @@ export class IngestionEngine {
     }
   }
 
-  private async stream(path: string, hash: string, integrationKey?: string) {
-    const fileStream = fs.createReadStream(path, { encoding: 'utf-8' });
-    const rl = readline.createInterface({
-      input: fileStream,
-      crlfDelay: Infinity
-    });
+  /**
+   * Loads each member of a zip archive as a file of its own: detected, deduplicated and
+   * tracked separately. A member that fails doesn't stop the others; if none loads, the
+   * first failure is thrown as for a single file.
+   */
+  private async processArchive(path: string, members: InputFile[], integrationKey?: string, options: LoadOptions = {}): Promise<ProcessResult> {
+    Logger.info(`Reading ${members.length} file(s) from ${path}`);
+    const results: ProcessResult[] = [];
+    let firstError: unknown;
+
+    for (const member of members) {
+      try {
+        results.push(await this.stream(member, await InputFiles.hash(member), integrationKey, options));
+      } catch (error: unknown) {
+        firstError ??= error;
+        Logger.error(`Failed to load ${member.path}`, error as Error);
+        results.push({
+          path: member.path,
+          integration: integrationKey ?? '',
+          status: 'failed',
+          totalRows: 0,
+          processed: 0,
+          skipped: 0,
+          errors: 0,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    const loaded = results.filter(result => result.status !== 'failed');
+    if (loaded.length === 0) {
+      throw firstError;
+    }
+    const duplicates = results.filter(result => result.status === 'duplicate');
+    const sum = (key: 'totalRows' | 'processed' | 'skipped' | 'errors') => results.reduce((total, result) => total + result[key], 0);
+
+    return {
+      path,
+      integration: [...new Set(loaded.map(result => result.integration))].join(', '),
+      status: duplicates.length === results.length ? 'duplicate'
+        : loaded.length < results.length || results.some(result => result.status === 'partial') ? 'partial'
+        : 'completed',
+      totalRows: sum('totalRows'),
+      processed: sum('processed'),
+      skipped: sum('skipped'),
+      errors: sum('errors'),
+      duplicateOf: duplicates.length === results.length ? duplicates[0].duplicateOf : undefined,
+      members: results
+    };
+  }
+
+  /**
+   * Loads several files, up to `concurrency` at a time. A file that fails doesn't stop
+   * the others; each outcome carries the file's result or its error.
+   */
+  async processFiles(paths: string[], integrationKey?: string, options: LoadOptions = {}, concurrency = 1): Promise<FileOutcome[]> {
+    if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+      throw new ValidationError(`Concurrency must be an integer from 1 to ${MAX_CONCURRENCY}`, { concurrency });
+    }
+
+    const outcomes: FileOutcome[] = [];
+    let next = 0;
+    const worker = async () => {
+      while (next < paths.length) {
+        const index = next++;
+        try {
+          outcomes[index] = { path: paths[index], result: await this.processFile(paths[index], integrationKey, options) };
+        } catch (error: unknown) {
+          Logger.error(`Failed to load ${paths[index]}`, error as Error);
+          outcomes[index] = { path: paths[index], error: error instanceof Error ? error : new Error(String(error)) };
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, paths.length) }, worker));
+    return outcomes;
+  }
+
+  /**
+   * Re-runs a file through the current definition of its integration. The target is a job
+   * id (its file and integration are reused) or a file path (detected as usual). Without
+   * options.force a file already in data_source_files comes back as a duplicate.
+   */
+  async reprocess(target: string, integrationKey?: string, options: LoadOptions = {}): Promise<ProcessResult> {
+    if (!/^\d+$/.test(target)) {
+      return this.processFile(target, integrationKey, options);
+    }
+
+    const job = await this.db.getJob(Number(target));
+    if (!job) {
+      throw new ValidationError('Job not found', { jobId: target });
+    }
+    if (!fs.existsSync(job.archive_path || job.file_path)) {
+      throw new ValidationError('The file for this job is no longer at its original path; pass the file instead', {
+        jobId: job.id,
+        path: job.archive_path || job.file_path
+      });
+    }
+
+    const integration = await this.db.getIntegrationById(job.integration_id);
+    if (!integrationKey) {
+      if (!integration) {
+        throw new ValidationError('Integration not found for job', { jobId: job.id, integrationId: job.integration_id });
+      }
+      integrationKey = integration.name;
+    }
+
+    // Reprocessing loads through the current definition unless a version is pinned
+    if (integration && integrationKey === integration.name && options.integrationVersion === undefined &&
+        job.integration_version_id && job.integration_version_id !== integration.current_version_id) {
+      const used = (await this.db.getIntegrationVersions(integration.name)).find(version => version.id === job.integration_version_id);
+      Logger.warn(
+        `Job ${job.id} loaded with ${integration.name} version ${used?.version ?? '?'}, which has changed since; ` +
+        `pass --version ${used?.version ?? 'N'} to load with that definition`
+      );
+    }
+
+    if (job.archive_path) {
+      // Only the member the job loaded, not the rest of its archive
+      const member = job.file_path.slice(job.archive_path.length + 1);
+      return this.processFile(job.archive_path, integrationKey, { ...options, member, reprocessOf: job.id });
+    }
+    return this.processFile(job.file_path, integrationKey, { ...options, reprocessOf: job.id });
+  }
+
+  private async stream(file: InputFile, hash: string, integrationKey?: string, options: LoadOptions = {}): Promise<ProcessResult> {
+    const { path } = file;
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    const transactionMode = options.transactionMode ?? 'file';
+    const source = await openSource(file, options);
+    Logger.info(`Reading ${await source.describe()}`);
 
-    let headers: string[] = [];
     let integration: Integration | null = null;
     let jobId: number | null = null;
-    let processed = 0, skipped = 0, lineCount = 0;
+    let client: PoolClient | null = null;
+    let load: LoadContext | null = null;
+    let batch: PendingRecord[] = [];
+    let processed = 0, skipped = 0, errors = 0, recordCount = 0;
+    let status: JobStatus = 'pending';
+    // Counters as of the last COMMIT, reported if the job later fails and rolls back
+    let committed = { processed: 0, errors: 0 };
+    let drift: SchemaDrift | undefined;
+    let lastProgressAt = Date.now();
+    let cancelled = false;
+    // Records already committed by the interrupted job being resumed
+    let resumeFrom = 0;
+    let locked = false;
 
-    for await (const line of rl) {
-      lineCount++;
+    try {
+      const { headers, records } = await source.read();
       
-      if (lineCount === 1) {
-        // Parse headers
-        headers = this.parseCSVLine(line).map(h => h.trim());
-        
-        integration = integrationKey 
-          ? await this.db.getIntegrationByName(integrationKey)
-          : await this.db.getIntegrationByHeaders(headers);
-        
-        if (!integration) {
-          throw new ValidationError(
-            integrationKey ? `Integration not found: ${integrationKey}` : 'Could not detect integration',
-            { integrationKey, headers }
-          );
+      integration = integrationKey
+        ? await this.db.getIntegrationByName(integrationKey)
+        : (await this.detect(headers)).integration;
+      
+      if (!integration) {
+        throw new ValidationError(`Integration not found: ${integrationKey}`, { integrationKey, headers });
+      }
+      
+      if (options.integrationVersion !== undefined) {
+        const pinned = await this.db.getIntegrationVersion(integration.name, options.integrationVersion);
+        if (!pinned) {
+          throw new ValidationError(`Integration ${integration.name} has no version ${options.integrationVersion}`, {
+            integration: integration.name,
+            version: options.integrationVersion
+          });
+        }
+        integration = pinned;
+      }
+      
+      // Held until the load ends, so the checks below can't race another process loading the same file
+      client = await this.db.connect();
+      locked = await this.db.tryLockFile(client, integration.id!, hash);
+      if (!locked) {
+        throw new ValidationError(`${path} is already being loaded by another process for ${integration.name}`, {
+          path,
+          integration: integration.name
+        });
+      }
+      
+      const previous = await this.db.getProcessedFile(integration.id!, hash);
+      if (previous && options.force) {
+        Logger.warn(`Reprocessing ${path}, previously loaded by job ${previous.job_id}`);
+      } else if (previous) {
+        Logger.warn(`File already processed: ${path}`);
+        return {
+          path,
+          integration: integration.name,
+          status: 'duplicate',
+          totalRows: 0,
+          processed: 0,
+          skipped: 0,
+          errors: 0,
+          duplicateOf: previous
+        };
+      }
+      
+      const interrupted = await this.findInterruptedJob(integration, path, hash, options);
+      if (interrupted?.integration_version && interrupted.integration_version_id !== integration.current_version_id) {
+        // Finish with the definition the first rows were loaded with
+        integration = (await this.db.getIntegrationVersion(integration.name, interrupted.integration_version)) ?? integration;
+      }
+      
+      Logger.info(`Using integration: ${integration.name}${integration.version ? ` (version ${integration.version})` : ''}`);
+      const columns = IntegrationDetector.resolveColumns(integration, headers);
+      const filled = new Map<string, number>();
+      
+      if (interrupted) {
+        const checkpoint = interrupted.checkpoint!;
+        jobId = interrupted.id!;
+        await this.db.resumeJob(jobId);
+        resumeFrom = checkpoint.offset;
+        ({ processed, skipped, errors } = checkpoint);
+        committed = { processed, errors };
+        Object.entries(checkpoint.filled).forEach(([column, count]) => filled.set(column, count));
+        drift = { unmapped: [], added: [], missing: [], ...interrupted.schema_drift, empty: [] };
+        Logger.info(`Resuming job ${jobId} after row ${resumeFrom} (${processed} loaded, ${errors} quarantined so far)`);
+      } else {
+        jobId = await this.db.createJob({
+          integrationId: integration.id!,
+          filePath: path,
+          fileHash: hash,
+          archivePath: file.archive,
+          reprocessOf: options.reprocessOf ?? previous?.job_id ?? undefined,
+          integrationVersionId: integration.current_version_id
+        });
+        drift = SchemaDriftCheck.compareHeaders(integration, headers, columns, await this.db.getLastSourceHeaders(integration.id!));
+        await this.db.recordSchemaDrift(jobId, headers, drift);
+        this.applyDriftPolicy(integration, drift);
+      }
+
+      load = { client, restaurantIds: new Map(), jobId };
+      await this.beginLoad(client);
+
+      for await (const { values, line } of records) {
+        recordCount++;
+        if (recordCount <= resumeFrom) {
+          // Committed by the interrupted run
+          continue;
+        }
+        const record = IntegrationDetector.canonicalise(values, columns);
+        SchemaDriftCheck.countFilled(record, columns, filled);
+
+        try {
+          const transformed = this.transform(record, integration!).record;
+          if (transformed) {
+            batch.push({ line, raw: record, transformed });
+          } else {
+            skipped++;
+          }
+        } catch (error: unknown) {
+          if (!(error instanceof ProcessingError || error instanceof DatabaseError)) {
+            throw error;
+          }
+          await this.quarantine(jobId!, line, record, error, client!);
+          errors++;
+        }
+
+        if (batch.length >= batchSize) {
+          const result = await this.flush(batch, integration!, jobId!, load!);
+          processed += result.loaded;
+          errors += result.failed;
+          batch = [];
+          
+          if (transactionMode === 'batch') {
+            await this.db.saveCheckpoint(jobId, { offset: recordCount, processed, skipped, errors, filled: Object.fromEntries(filled) }, client!);
+            await client!.query('COMMIT');
+            committed = { processed, errors };
+            await this.beginLoad(client!);
+          }
+          Logger.info(`${processed} records processed...`);
         }
-        
-        Logger.info(`Using integration: ${integration.name}`);
-        
-        if (await this.db.isFileProcessed(integration.id!, "", hash)) {
-          Logger.warn(`File already processed: ${path}`);
-          return { processed: 0, skipped: 0 };
+
+        if (Date.now() - lastProgressAt >= PROGRESS_INTERVAL_MS) {
+          lastProgressAt = Date.now();
+          cancelled = await this.db.recordJobProgress(jobId, { totalRows: recordCount, processedRows: processed, errorRows: errors });
+          if (cancelled) {
+            throw new ProcessingError(`Job ${jobId} was cancelled`, { jobId, line });
+          }
         }
-        
-        jobId = await this.db.createJob(integration.id!, path, 0);
-        continue;
       }
 
-      // Parse data line
-      const fields = this.parseCSVLine(line);
-      const record: Record<string, string> = {};
-      headers.forEach((h, i) => record[h] = fields[i] || '');
+      if (batch.length > 0) {
+        const result = await this.flush(batch, integration!, jobId!, load!);
+        processed += result.loaded;
+        errors += result.failed;
+      }
 
-      const transformed = this.transform(record, integration!);
-      if (transformed) {
-        await this.processRecord(transformed, integration!);
-        processed++;
-        if (processed % 100 === 0) Logger.info(`${processed} records processed...`);
-      } else {
-        skipped++;
+      if (recordCount > 0) {
+        drift!.empty = SchemaDriftCheck.emptyColumns(columns, filled);
+        if (drift!.empty.length > 0) {
+          await this.db.recordSchemaDrift(jobId, headers, drift!);
+          this.applyDriftPolicy(integration, { unmapped: [], added: [], missing: [], empty: drift!.empty });
+        }
+      }
+
+      if (jobId && integration) {
+        status = errors === 0 ? 'completed' : processed > 0 ? 'partial' : 'failed';
+        if (transactionMode === 'batch') {
+          await this.db.saveCheckpoint(jobId, { offset: recordCount, processed, skipped, errors, filled: Object.fromEntries(filled), finished: true }, client!);
+        }
+        if (status !== 'failed') {
+          await this.db.recordProcessedFile(integration.id!, path, hash, recordCount, jobId, file.archive ?? null, client!);
+        }
+        await client!.query('COMMIT');
+        committed = { processed, errors };
+
+        await this.db.updateJob(jobId, { 
+          status,
+          totalRows: recordCount,
+          processedRows: processed,
+          insertedRows: processed,
+          errorRows: errors,
+          errorMessage: errors > 0 ? `${errors} rows quarantined` : undefined
+        });
+        if (errors > 0) {
+          Logger.warn(`${errors} rows quarantined for job ${jobId}; inspect with: cli.ts quarantine list ${jobId}`);
+        }
+      }
+    } catch (error: unknown) {
+      if (client) {
+        await client.query('ROLLBACK').catch(() => undefined);
+      }
+      if (jobId) {
+        await this.db.updateJob(jobId, {
+          status: cancelled ? 'cancelled' : 'failed',
+          totalRows: recordCount,
+          processedRows: committed.processed,
+          insertedRows: committed.processed,
+          errorRows: committed.errors,
+          errorMessage: error instanceof Error ? error.message : String(error),
+          errorContext: this.errorDetails(error)
+        });
+      }
+      throw error;
+    } finally {
+      if (client) {
+        // A connection that may still hold the lock is closed rather than returned to the pool
+        const unlocked = !locked || await this.db.unlockFile(client, integration!.id!, hash).then(() => true, () => false);
+        client.release(!unlocked);
       }
     }
 
-    if (jobId && integration) {
-      await this.db.updateJob(jobId, { 
-        status: 'completed',
-        totalRows: lineCount - 1,
-        processedRows: processed,
-        insertedRows: processed,
-        errorRows: skipped
-      });
-      await this.db.recordProcessedFile(integration.id!, path, hash, lineCount - 1, jobId);
+    return {
+      path,
+      integration: integration.name,
+      status,
+      jobId: jobId ?? undefined,
+      totalRows: recordCount,
+      processed,
+      skipped,
+      errors,
+      drift
+    };
+  }
+
+  /**
+   * An earlier job for the same file that stopped after committing some batches but before
+   * the end of the file: failed, cancelled, or left running by a process that died. A job
+   * that read every row and failed only because all of them were quarantined is finished.
+   * Only the newest job for the file counts. The caller holds the file's lock, so a job
+   * still marked running has lost its process even before its heartbeat goes stale.
+   */
+  private async findInterruptedJob(integration: Integration, path: string, hash: string, options: LoadOptions): Promise<IngestionJob | null> {
+    const latest = await this.db.getLatestJobForFile(integration.id!, hash);
+    if (!latest) {
+      return null;
     }
 
-    return { processed, skipped };
+    const interrupted = latest.checkpoint && latest.checkpoint.offset > 0 && !latest.checkpoint.finished &&
+      ['failed', 'cancelled', 'running', 'pending'].includes(latest.status);
+    if (!interrupted) {
+      return null;
+    }
+    if (options.resume === false) {
+      Logger.warn(`Starting over; job ${latest.id} stopped after row ${latest.checkpoint!.offset} and is left as it is`);
+      return null;
+    }
+    return latest;
   }
 
-  private parseCSVLine(line: string): string[] {
-    const result: string[] = [];
-    let currentField = '';
-    let inQuotes = false;
+  // processRecord and the Database methods each wrap the pg error, so walk the originalError chain
+  private isLockConflict(error: unknown): boolean {
+    for (let current: any = error, depth = 0; current && depth < 5; depth++) {
+      if (LOCK_CONFLICT_CODES.has(current.code)) return true;
+      current = current.context?.originalError ?? current.originalError;
+    }
+    return false;
+  }
 
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if (char === '"') {
-        if (inQuotes && line[i + 1] === '"') {
-          currentField += '"';
-          i++;
-        } else {
-          inQuotes = !inQuotes;
+  // What a failed job keeps of its error, for `jobs show`
+  private errorDetails(error: unknown): Record<string, any> {
+    if (error instanceof ValidationError || error instanceof ProcessingError || error instanceof DatabaseError) {
+      return { name: error.name, code: error.code, context: serializeErrorContext(error.context) };
+    }
+    return error instanceof Error ? { name: error.name, stack: error.stack } : { value: String(error) };
+  }
+
+  // Drift is always recorded on the job; the integration's policy decides whether it stops the load
+  private applyDriftPolicy(integration: Integration, drift: SchemaDrift): void {
+    if (!SchemaDriftCheck.hasDrift(drift)) {
+      return;
+    }
+    const message = `Schema drift for ${integration.name}: ${SchemaDriftCheck.describe(drift)}`;
+    const policy = SchemaDriftCheck.policyOf(integration);
+    if (policy === 'fail') {
+      throw new ValidationError(message, { integration: integration.name, drift });
+    }
+    if (policy === 'warn') {
+      Logger.warn(message);
+    } else {
+      Logger.info(message);
+    }
+  }
+
+  /**
+   * Loads a batch with multi-row upserts. If the batch is rejected, it is rolled back
+   * and retried row by row so that only the offending rows are quarantined.
+   */
+  private async flush(batch: PendingRecord[], integration: Integration, jobId: number, load: LoadContext): Promise<{ loaded: number; failed: number }> {
+    const { client } = load;
+
+    await client.query('SAVEPOINT bulk_load');
+    try {
+      await this.loadBatch(batch.map(pending => pending.transformed), integration, load);
+      await client.query('RELEASE SAVEPOINT bulk_load');
+      return { loaded: batch.length, failed: 0 };
+    } catch (error: unknown) {
+      await client.query('ROLLBACK TO SAVEPOINT bulk_load');
+      // Restaurants created inside the rolled-back savepoint no longer exist
+      load.restaurantIds.clear();
+      if (this.isLockConflict(error)) {
+        throw this.lockConflict(error, jobId, batch[0].line);
+      }
+      Logger.warn(`Batch of ${batch.length} rejected (${error instanceof Error ? error.message : String(error)}), retrying row by row`);
+    }
+
+    let loaded = 0, failed = 0;
+    for (const pending of batch) {
+      await client.query('SAVEPOINT row_load');
+      try {
+        await this.processRecord(pending.transformed, integration, load);
+        await client.query('RELEASE SAVEPOINT row_load');
+        loaded++;
+      } catch (error: unknown) {
+        await client.query('ROLLBACK TO SAVEPOINT row_load');
+        load.restaurantIds.clear();
+        if (!(error instanceof ProcessingError || error instanceof DatabaseError)) {
+          throw error;
         }
-      } else if (char === ',' && !inQuotes) {
-        result.push(currentField.trim());
-        currentField = '';
-      } else {
-        currentField += char;
+        if (this.isLockConflict(error)) {
+          throw this.lockConflict(error, jobId, pending.line);
+        }
+        await this.quarantine(jobId, pending.line, pending.raw, error, client);
+        failed++;
       }
     }
+    return { loaded, failed };
+  }
+
+  // A load blocked on another's locks for LOCK_TIMEOUT_MS fails with 55P03, a lock conflict
+  private async beginLoad(client: Queryable): Promise<void> {
+    await client.query('BEGIN');
+    await client.query(`SET LOCAL lock_timeout = ${LOCK_TIMEOUT_MS}`);
+  }
+
+  // Not the rows' fault: a concurrent load holds rows this one writes, so the job fails and can be resumed
+  private lockConflict(error: unknown, jobId: number, line: number): ProcessingError {
+    return new ProcessingError('Blocked by a concurrent load; load the file again once it finishes', {
+      jobId,
+      line,
+      originalError: error
+    });
+  }
+
+  private async loadBatch(records: any[], integration: Integration, load: LoadContext): Promise<void> {
+    const tables = integration.tables || [];
+    const orders: OrderData[] = [];
+    const ratings: Rating[] = [];
+
+    for (const record of records) {
+      const restaurantId = await this.resolveRestaurant(record, integration, load);
+      if (tables.includes('orders')) {
+        orders.push(this.toOrderData(record, integration, restaurantId, load.jobId));
+      }
+      if (this.hasRating(record, tables, restaurantId)) {
+        ratings.push(this.toRating(record, integration, restaurantId, load.jobId));
+      }
+    }
+
+    if (orders.length > 0) {
+      await this.db.bulkUpsertOrders(orders, load.client);
+    }
+    if (ratings.length > 0) {
+      await this.db.bulkUpsertRatings(ratings, load.client);
+    }
+  }
+
+  // Scores every active integration against a file's headers, without reading its rows
+  async detectFile(path: string, options: SourceOptions = {}): Promise<{ headers: string[]; detection: DetectionResult }> {
+    if (!Validators.isValidFilePath(path)) {
+      throw new ValidationError('Invalid file path', { path });
+    }
+    const { headers } = await (await openSource(await this.openOne(path, options), options)).read();
+    return { headers, detection: await this.db.detectIntegration(headers) };
+  }
+
+  // Reports and previews read a single file; in an archive, options.member picks it
+  private async openOne(path: string, options: SourceOptions): Promise<InputFile> {
+    const files = await InputFiles.open(path, options.member);
+    if (files.length > 1) {
+      throw new ValidationError(`${path} holds ${files.length} files; pick one with --member`, {
+        path,
+        members: files.map(file => file.name)
+      });
+    }
+    return files[0];
+  }
+
+  /**
+   * Runs detection and the full transform pipeline over a file without writing anything,
+   * returning what a load would do.
+   */
+  async validateFile(path: string, integrationKey?: string, options: SourceOptions = {}): Promise<ValidationReport> {
+    if (!Validators.isValidFilePath(path)) {
+      throw new ValidationError('Invalid file path', { path });
+    }
+
+    if (integrationKey && !Validators.isValidIntegrationKey(integrationKey)) {
+      throw new ValidationError('Invalid integration key', { integrationKey });
+    }
+
+    const file = await this.openOne(path, options);
+    const source = await openSource(file, options);
+    const { headers, records } = await source.read();
     
-    result.push(currentField.trim());
-    return result;
+    let score: number | undefined;
+    let integration: Integration | null;
+    if (integrationKey) {
+      integration = await this.db.getIntegrationByName(integrationKey);
+    } else {
+      const match = await this.detect(headers);
+      integration = match.integration;
+      score = match.score;
+    }
+    
+    if (!integration) {
+      throw new ValidationError(`Integration not found: ${integrationKey}`, { integrationKey, headers });
+    }
+    const columns = IntegrationDetector.resolveColumns(integration, headers);
+
+    const report: ValidationReport = {
+      path: file.path,
+      format: source.format,
+      integration: integration.name,
+      score,
+      timezone: integration.timezone || DEFAULT_TIMEZONE,
+      alreadyProcessed: await this.db.isFileProcessed(integration.id!, '', await InputFiles.hash(file)),
+      totalRows: 0,
+      validRows: 0,
+      skippedRows: 0,
+      errorRows: 0,
+      skipReasons: {},
+      errors: [],
+      fields: Object.fromEntries(Object.entries(integration.field_mapping).map(([csvField, fieldMap]) => [
+        csvField,
+        {
+          target: fieldMap.target,
+          present: (DerivedFields.isDerived(fieldMap) ? fieldMap.sources! : [csvField]).every(column => columns[column] !== undefined),
+          seen: 0,
+          empty: 0,
+          parseFailures: 0
+        }
+      ])),
+      orderStatuses: {},
+      statusRules: {},
+      deliveryTypes: {}
+    };
+
+    for await (const { values, line } of records) {
+      report.totalRows++;
+      const record = IntegrationDetector.canonicalise(values, columns);
+
+      try {
+        const outcome = this.transform(record, integration, (csvField, raw, value) => {
+          const stats = report.fields[csvField];
+          stats.seen++;
+          if (raw === undefined || raw === '') {
+            stats.empty++;
+          } else if (isMissingValue(value)) {
+            stats.parseFailures++;
+          }
+        });
+
+        if (outcome.skipReason !== undefined) {
+          report.skippedRows++;
+          report.skipReasons[outcome.skipReason] = (report.skipReasons[outcome.skipReason] || 0) + 1;
+          continue;
+        }
+
+        const transformed = outcome.record;
+        report.validRows++;
+        if (transformed.order_status) {
+          report.orderStatuses[transformed.order_status] = (report.orderStatuses[transformed.order_status] || 0) + 1;
+        }
+        if (outcome.statusRule) {
+          const hits = report.statusRules[outcome.statusRule] ??= { count: 0, lines: [] };
+          hits.count++;
+          if (hits.lines.length < MAX_RULE_SAMPLE_LINES) hits.lines.push(line);
+        }
+        if (integration.tables.includes('orders')) {
+          const deliveryType = transformed.delivery_type || 'UNKNOWN';
+          report.deliveryTypes[deliveryType] = (report.deliveryTypes[deliveryType] || 0) + 1;
+        }
+        if (transformed.order_datetime instanceof Date && !isNaN(transformed.order_datetime.getTime())) {
+          if (!report.minOrderDatetime || transformed.order_datetime < report.minOrderDatetime) {
+            report.minOrderDatetime = transformed.order_datetime;
+          }
+          if (!report.maxOrderDatetime || transformed.order_datetime > report.maxOrderDatetime) {
+            report.maxOrderDatetime = transformed.order_datetime;
+          }
+        }
+      } catch (error: unknown) {
+        if (!(error instanceof ProcessingError || error instanceof DatabaseError)) {
+          throw error;
+        }
+        report.errorRows++;
+        const stats = report.fields[error.context.field];
+        if (stats) {
+          stats.seen++;
+          stats.parseFailures++;
+        }
+        if (report.errors.length < MAX_REPORTED_ERRORS) {
+          report.errors.push({ line, message: error.message });
+        }
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Re-runs pending quarantined rows through the integration's current mapping,
+   * typically after the mapping has been fixed.
+   */
+  async redriveQuarantined(jobId?: number): Promise<{ resolved: number; failed: number; skipped: number }> {
+    const records = await this.db.getQuarantinedRecords({ jobId, status: 'pending' });
+    const integrations = new Map<number, Integration>();
+    const resolvedByJob = new Map<number, number>();
+    const restaurantIds = new Map<string, number>();
+    let resolved = 0, failed = 0, skipped = 0;
+
+    const client = await this.db.connect();
+    try {
+      for (const quarantined of records) {
+        let integration = integrations.get(quarantined.integration_id!);
+        if (!integration) {
+          const found = await this.db.getIntegrationById(quarantined.integration_id!);
+          if (!found) {
+            throw new ValidationError('Integration not found for quarantined record', {
+              quarantineId: quarantined.id,
+              integrationId: quarantined.integration_id
+            });
+          }
+          integration = found;
+          integrations.set(found.id!, found);
+        }
+
+        try {
+          const { record: transformed, skipReason } = this.transform(quarantined.raw_record, integration);
+          if (!transformed) {
+            Logger.warn(`Quarantined row ${quarantined.id} (line ${quarantined.line_number}) would still be skipped: ${skipReason}`);
+            skipped++;
+            continue;
+          }
+          // Each row is its own transaction, restaurant included, so a failed write leaves nothing behind.
+          // Re-driven rows belong to the job that originally read them
+          await this.beginLoad(client);
+          await this.processRecord(transformed, integration, { client, restaurantIds, jobId: quarantined.job_id });
+          await this.db.resolveQuarantinedRecord(quarantined.id!, client);
+          await client.query('COMMIT');
+          resolvedByJob.set(quarantined.job_id, (resolvedByJob.get(quarantined.job_id) || 0) + 1);
+          resolved++;
+        } catch (error: unknown) {
+          await client.query('ROLLBACK').catch(() => undefined);
+          // Restaurants created by the rolled-back row no longer exist
+          restaurantIds.clear();
+          if (!(error instanceof ProcessingError || error instanceof DatabaseError)) {
+            throw error;
+          }
+          await this.db.updateQuarantinedError(quarantined.id!, this.errorCode(error), error.message, serializeErrorContext(error.context));
+          failed++;
+        }
+      }
+    } finally {
+      client.release();
+    }
+
+    for (const [redrivenJobId, count] of resolvedByJob) {
+      await this.db.recordRedrivenRows(redrivenJobId, count);
+    }
+
+    return { resolved, failed, skipped };
   }
 
-  private transform(raw: any, integration: Integration): any | null {
+  // Refuses to guess: no match and near ties are both errors, with every candidate's score in the context
+  private async detect(headers: string[]): Promise<IntegrationMatch> {
+    const detection = await this.db.detectIntegration(headers);
+    if (!detection.match) {
+      throw new ValidationError(`Could not detect integration: ${detection.reason}`, {
+        headers,
+        ambiguous: detection.ambiguous,
+        candidates: detection.candidates.slice(0, 3).map(candidate => ({
+          integration: candidate.integration.name,
+          score: Math.round(candidate.score * 100) / 100,
+          missing: candidate.missing,
+          missingSignature: candidate.missingSignature
+        }))
+      });
+    }
+    return detection.match;
+  }
+
+  private async quarantine(jobId: number, lineNumber: number, record: Record<string, string>, error: ProcessingError | DatabaseError, client?: Queryable): Promise<void> {
+    Logger.warn(`Line ${lineNumber} quarantined: ${error.message}`);
+    await this.db.quarantineRecord({
+      job_id: jobId,
+      line_number: lineNumber,
+      raw_record: record,
+      target_table: error.context.table,
+      error_code: this.errorCode(error),
+      error_message: error.message,
+      error_context: serializeErrorContext(error.context)
+    }, client);
+  }
+
+  // processRecord wraps database failures, so surface Postgres's SQLSTATE (23505, 22003, ...) where there is one
+  private errorCode(error: ProcessingError | DatabaseError): string {
+    for (let current: any = error, depth = 0; current && depth < 5; depth++) {
+      const wrapper = current instanceof ProcessingError || current instanceof DatabaseError || current instanceof ValidationError;
+      if (!wrapper && typeof current.code === 'string') return current.code;
+      current = current.context?.originalError ?? current.originalError;
+    }
+    const cause = error.context.originalError;
+    return cause instanceof DatabaseError ? cause.code : error.code;
+  }
+
+  private transform(raw: any, integration: Integration, observe?: FieldObserver): TransformOutcome {
     const result: any = {
       platform_id: integration.platform_id
     };
     
+    const timezone = integration.timezone || DEFAULT_TIMEZONE;
+    const locale = integration.number_locale || DEFAULT_NUMBER_LOCALE;
+    
     for (const [csvField, fieldMap] of Object.entries(integration.field_mapping)) {
-      const value = raw[csvField];
+      let value = raw[csvField];
       const target = fieldMap.target;
       
       // Apply transformations if specified
-      let transformedValue = this.applyTransform(value, fieldMap);
+      let transformedValue: any;
+      try {
+        if (DerivedFields.isDerived(fieldMap)) {
+          const derived = DerivedFields.derive(raw, csvField, fieldMap, timezone, fieldMap.locale || locale);
+          value = derived.raw;
+          transformedValue = derived.needsTransform ? this.applyTransform(derived.raw, fieldMap, timezone, locale)
+            : fieldMap.derive === 'sum' ? this.toNumber(derived.value, fieldMap) : derived.value;
+        } else {
+          transformedValue = this.applyTransform(value, fieldMap, timezone, locale);
+        }
+        if (target === 'currency_code') {
+          transformedValue = this.toCurrencyCode(transformedValue);
+        }
+      } catch (error: unknown) {
+        if (error instanceof ProcessingError) {
+          throw new ProcessingError(`${error.message} in field '${csvField}'`, { ...error.context, field: csvField, target });
+        }
+        throw error;
+      }
+      
+      observe?.(csvField, value, transformedValue);
       
       // Proper type checking with FieldMap
       if (fieldMap.required && (transformedValue === undefined || transformedValue === null || transformedValue === '')) {
-        return null;
+        return { record: null, skipReason: `Missing required field '${csvField}'` };
       }
       
       result[target] = transformedValue;
     }
 
-    // Special handling for DeliveryPlatform2 date/time combination
-    if (integration.name === 'deliveryplatform2_business_segments' && result.order_datetime && result.order_time) {
-      const dateValue = result.order_datetime instanceof Date ? result.order_datetime.toISOString().split('T')[0] : result.order_datetime;
-      const timeValue = result.order_time;
-      result.order_datetime = DataTransforms.parseDeliveryPlatform2DateTime(dateValue, timeValue);
-      delete result.order_time; // Remove the temporary time field
-    }
-
     // Determine order_status for orders
+    let statusRule: string | undefined;
     if (integration.tables.includes('orders')) {
-      result.order_status = this.determineOrderStatus(result, integration);
+      const decision = this.determineOrderStatus(result, integration);
+      result.order_status = decision.status;
+      statusRule = decision.rule;
       
       if (!result.platform_order_id || result.platform_order_id === '') {
-        return null;
+        return { record: null, skipReason: 'Empty platform_order_id' };
       }
     }
 
-    return result;
+    return { record: result, statusRule };
   }
 
-  private applyTransform(value: string, fieldMap: FieldMap): any {
+  private applyTransform(value: string, fieldMap: FieldMap, timezone: string, locale: string): any {
     if (!value && fieldMap.default !== undefined) {
       return fieldMap.default;
     }
 
+    const formats = fieldMap.format === undefined ? undefined
+      : Array.isArray(fieldMap.format) ? fieldMap.format : [fieldMap.format];
+    const numberLocale = fieldMap.locale || locale;
+
     // Apply custom transformations first
     if (fieldMap.transform) {
-      return this.runTransformation(value, fieldMap.transform);
+      return this.runTransformation(value, fieldMap.transform, { timezone, formats, locale: numberLocale });
     }
 
     switch (fieldMap.type) {
       case 'number':
-        if (!value || value === '') return null;
-        const num = parseFloat(String(value).replace(/[^0-9.-]/g, ''));
-        return isNaN(num) ? null : num;
+        return this.toNumber(NumberParser.parse(value, numberLocale), fieldMap);
       
       case 'boolean':
         if (!value || value === '') return false;
@@ -193,9 +918,13 @@ export class IngestionEngine {
         return strValue === 'on' || strValue === 'true' || strValue === '1';
       
       case 'date':
-        if (!value || value === '') return null;
-        const date = new Date(String(value));
-        return isNaN(date.getTime()) ? null : date;
+        if (!value || String(value).trim() === '') return null;
+        const date = DateParser.parse(String(value), { formats, timezone });
+        // A value that isn't a date fails the row, as the parseDate transform does, rather than loading as null
+        if (!date) {
+          throw new ProcessingError(formats ? 'Date does not match format' : 'Unrecognised date', { value, formats, timezone });
+        }
+        return date;
       
       case 'enum':
         return this.transformEnum(value, fieldMap);
@@ -205,8 +934,14 @@ export class IngestionEngine {
     }
   }
 
-  private runTransformation(value: string, transformName: string): any {
-    return DataTransforms.runTransformation(value, transformName);
+  // Money targets keep the parser's exact decimal text; other numeric columns take a number
+  private toNumber(decimal: string | null, fieldMap: FieldMap): string | number | null {
+    if (decimal === null) return null;
+    return MONEY_TARGETS.includes(fieldMap.target) ? decimal : Number(decimal);
+  }
+
+  private runTransformation(value: string, transform: FieldTransform, context: TransformContext): any {
+    return TransformRegistry.run(value, transform, context);
   }
 
   private transformEnum(value: string, fieldMap: FieldMap): any {
@@ -220,124 +955,143 @@ export class IngestionEngine {
     return match || value;
   }
 
-  private determineOrderStatus(result: any, integration: Integration): OrderStatus {
-    const integrationName = integration.name;
-    
-    if (integrationName === 'deliveryplatform1_order_history') {
-      // Already transformed by deliveryPlatform1OrderStatus
-      if (result.order_status) return result.order_status;
-      
-      // Fallback logic
-      if (result.cancelled_by) {
-        return result.cancelled_by === 'customer' ? 'CANCELLED_CUSTOMER' : 'CANCELLED_RESTAURANT';
-      }
-      return result.completed_flag ? 'COMPLETED' : 'REJECTED';
-    }
-    
-    if (integrationName === 'deliveryplatform3_total_order') {
-      const customerCancelled = parseInt(result.customer_cancelled_count || '0');
-      const partnerCancelled = parseInt(result.partner_cancelled_count || '0');
-      
-      if (customerCancelled > 0) return 'CANCELLED_CUSTOMER';
-      if (partnerCancelled > 0) return 'CANCELLED_RESTAURANT';
-      
-      // Check order status
-      const status = result.order_status_raw?.toLowerCase();
-      if (status === 'good') return 'COMPLETED';
-      if (status === 'bad') return 'REJECTED';
-      
-      return 'ACCEPTED'; // Default for DeliveryPlatform3
+  private determineOrderStatus(result: any, integration: Integration): StatusDecision {
+    if (integration.status_rules) {
+      // Rules see amounts as numbers, so `equals 0` and `falsy` hold for a zero order value
+      const amounts = Object.fromEntries(MONEY_TARGETS
+        .filter(target => typeof result[target] === 'string')
+        .map(target => [target, Number(result[target])]));
+      return StatusRules.evaluate(integration.status_rules, { ...result, ...amounts });
     }
     
-    if (integrationName === 'deliveryplatform2_business_segments') {
-      // For DeliveryPlatform2, all orders in the data are accepted/completed IG?
-      // Could check if prep_time_minutes > 0 to determine acceptance
-      return result.prep_time_minutes && result.prep_time_minutes > 0 ? 'ACCEPTED' : 'COMPLETED';
+    // Without rules, trust a status the mapping produced directly
+    if (StatusRules.isOrderStatus(result.order_status)) {
+      return { status: result.order_status, rule: 'mapped order_status' };
     }
     
-    return 'ACCEPTED'; // Default
+    return { status: 'ACCEPTED', rule: 'default' }; // Default
   }
 
-  private async processRecord(record: any, integration: Integration): Promise<void> {
+  private async processRecord(record: any, integration: Integration, load?: LoadContext): Promise<void> {
+    // Tracks which target table was being written when an error occurred
+    let table = 'restaurants';
     try {
       const tables = integration.tables || [];
       
       // Always upsert restaurant if we have restaurant data
-      let restaurantId: number = 0;
-      if (record.restaurant_name && typeof record.restaurant_name === 'string') {
-        const restaurantName: string = record.restaurant_name;
-        const restaurantExternalId: string | undefined = 
-          (record.restaurant_external_id && typeof record.restaurant_external_id === 'string') 
-            ? record.restaurant_external_id 
-            : undefined;
-            
-        restaurantId = await this.db.upsertRestaurant(
-          restaurantName,
-          integration.platform_id,
-          restaurantExternalId
-        );
-      }
+      const restaurantId = await this.resolveRestaurant(record, integration, load);
 
       // Create orders if this integration targets orders table
       if (tables.includes('orders')) {
-        const orderData: OrderData = {
-          platform_id: integration.platform_id,
-          platform_order_id: String(record.platform_order_id),
-          restaurant_id: restaurantId,
-          order_status: record.order_status || 'ACCEPTED',
-          delivery_type: record.delivery_type || 'UNKNOWN',
-          order_value: typeof record.order_value === 'number' ? record.order_value : null,
-          basket_size: typeof record.basket_size === 'number' ? record.basket_size : null,
-          discount_amount: typeof record.discount_amount === 'number' ? record.discount_amount : null,
-          order_datetime: record.order_datetime instanceof Date ? record.order_datetime : null,
-          restaurant_wait_time_minutes: typeof record.restaurant_wait_time_minutes === 'number' ? record.restaurant_wait_time_minutes : null,
-          total_delivery_time_minutes: typeof record.total_delivery_time_minutes === 'number' ? record.total_delivery_time_minutes : null,
-          courier_wait_time_minutes: typeof record.courier_wait_time_minutes === 'number' ? record.courier_wait_time_minutes : null,
-          prep_time_minutes: typeof record.prep_time_minutes === 'number' ? record.prep_time_minutes : null,
-          currency_code: record.currency_code || 'GBP',
-          auto_accept_status: record.auto_accept_status || null
-        };
-        
-        await this.db.upsertOrder(orderData);
+        table = 'orders';
+        await this.db.upsertOrder(this.toOrderData(record, integration, restaurantId, load?.jobId), load?.client);
       }
 
       // Create ratings if this integration targets ratings table
-      if (tables.includes('ratings') && 
-          record.rating_value !== null && 
-          record.rating_value !== undefined && 
-          typeof record.rating_value === 'number' && 
-          !isNaN(record.rating_value) && 
-          restaurantId > 0) {
-            
-        const ratingData = {
-          platform_order_id: String(record.platform_order_id),
-          rating_value: record.rating_value,
-          rating_type: 'overall',
-          comment: record.comment || null
-        };
-        
-        await this.db.upsertRating(ratingData, restaurantId, integration.platform_id);
+      if (this.hasRating(record, tables, restaurantId)) {
+        table = 'ratings';
+        const ratingData = this.toRating(record, integration, restaurantId, load?.jobId);
+        await this.db.upsertRating(ratingData, restaurantId, integration.platform_id, load?.client);
       }
 
     } catch (error: unknown) {
       if (error instanceof ProcessingError) {
         throw error;
       }
-      throw new ProcessingError('Failed to process record', { 
+      throw new ProcessingError(error instanceof Error ? `Failed to process record: ${error.message}` : 'Failed to process record', { 
         originalError: error, 
         record, 
-        integration: integration.name 
+        integration: integration.name,
+        table
       });
     }
   }
 
-  private async hash(path: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const hash = crypto.createHash('sha256');
-      const stream = fs.createReadStream(path);
-      stream.on('data', data => hash.update(data));
-      stream.on('end', () => resolve(hash.digest('hex')));
-      stream.on('error', reject);
-    });
+  private async resolveRestaurant(record: any, integration: Integration, load?: LoadContext): Promise<number> {
+    if (!record.restaurant_name || typeof record.restaurant_name !== 'string') {
+      return 0;
+    }
+
+    const restaurantName: string = record.restaurant_name;
+    const restaurantExternalId: string | undefined = 
+      (record.restaurant_external_id && typeof record.restaurant_external_id === 'string') 
+        ? record.restaurant_external_id 
+        : undefined;
+
+    const cacheKey = `${restaurantName}\u0000${restaurantExternalId || ''}`;
+    const cached = load?.restaurantIds.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const restaurantId = await this.db.upsertRestaurant(
+      restaurantName,
+      integration.platform_id,
+      restaurantExternalId,
+      load?.client,
+      load?.jobId
+    );
+    load?.restaurantIds.set(cacheKey, restaurantId);
+    return restaurantId;
+  }
+
+  private toOrderData(record: any, integration: Integration, restaurantId: number, jobId?: number): OrderData {
+    return {
+      platform_id: integration.platform_id,
+      platform_order_id: String(record.platform_order_id),
+      restaurant_id: restaurantId,
+      order_status: record.order_status || 'ACCEPTED',
+      delivery_type: record.delivery_type || 'UNKNOWN',
+      order_value: this.toMoney(record.order_value),
+      basket_size: typeof record.basket_size === 'number' ? record.basket_size : null,
+      discount_amount: this.toMoney(record.discount_amount),
+      order_datetime: record.order_datetime instanceof Date ? record.order_datetime : null,
+      restaurant_wait_time_minutes: typeof record.restaurant_wait_time_minutes === 'number' ? record.restaurant_wait_time_minutes : null,
+      total_delivery_time_minutes: typeof record.total_delivery_time_minutes === 'number' ? record.total_delivery_time_minutes : null,
+      courier_wait_time_minutes: typeof record.courier_wait_time_minutes === 'number' ? record.courier_wait_time_minutes : null,
+      prep_time_minutes: typeof record.prep_time_minutes === 'number' ? record.prep_time_minutes : null,
+      currency_code: record.currency_code || 'GBP',
+      auto_accept_status: record.auto_accept_status || null,
+      ingestion_job_id: jobId
+    };
+  }
+
+  private hasRating(record: any, tables: string[], restaurantId: number): boolean {
+    return tables.includes('ratings') && 
+      record.rating_value !== null && 
+      record.rating_value !== undefined && 
+      typeof record.rating_value === 'number' && 
+      !isNaN(record.rating_value) && 
+      restaurantId > 0;
+  }
+
+  // Codes load trimmed and upper-cased, so analyse finds their rates; anything else fails the row
+  private toCurrencyCode(value: any): string | null {
+    if (value === undefined || value === null) return null;
+    const code = String(value).trim().toUpperCase();
+    if (code === '') return null;
+    if (!FxRates.isCurrencyCode(code)) {
+      throw new ProcessingError('Invalid currency code', { value });
+    }
+    return code;
+  }
+
+  // Parsed amounts are already decimal text; a transform may hand back a plain number
+  private toMoney(value: any): string | undefined {
+    if (typeof value === 'string' && /^-?\d+(\.\d+)?$/.test(value)) return value;
+    return typeof value === 'number' && Number.isFinite(value) ? String(value) : undefined;
+  }
+
+  private toRating(record: any, integration: Integration, restaurantId: number, jobId?: number): Rating {
+    return {
+      restaurant_id: restaurantId,
+      platform_id: integration.platform_id,
+      platform_order_id: String(record.platform_order_id),
+      rating_value: record.rating_value,
+      rating_type: 'overall',
+      comment: record.comment || null,
+      rating_date: record.rating_date instanceof Date ? record.rating_date : undefined,
+      ingestion_job_id: jobId
+    };
   }
 } 
\ No newline at end of file
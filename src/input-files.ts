@@ -0,0 +1,207 @@
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import * as zlib from 'zlib';
+import { pipeline, Readable } from 'stream';
+import { ProcessingError, ValidationError } from './utils.js';
+
+export interface InputFile {
+  // Recorded as the job's file path: the file itself, or "archive.zip!member.csv" for a zip member
+  path: string;
+  // Name the format is detected from: the member's name, or the path without a .gz suffix
+  name: string;
+  // Zip archive the member is read from
+  archive?: string;
+  // A fresh stream of the uncompressed content on every call
+  open(): Readable;
+}
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  encrypted: boolean;
+  dataOffset: number;
+  compressedSize: number;
+}
+
+const GZIP_MAGIC = [0x1F, 0x8B];
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054B50;
+const ZIP_CENTRAL_DIRECTORY_ENTRY = 0x02014B50;
+const ZIP_LOCAL_HEADER = 0x04034B50;
+// End record plus the longest archive comment it can be followed by
+const ZIP_END_SEARCH_BYTES = 22 + 0xFFFF;
+const ZIP_STORED = 0;
+const ZIP_DEFLATED = 8;
+
+// Folders, macOS resource forks and hidden files are never data
+const IGNORED_MEMBER = /(^|\/)(__MACOSX\/|\.[^/]*$)|\/$/;
+
+/**
+ * Opens what `process` is pointed at as one or more readable inputs without writing
+ * anything to disk. Gzip files are inflated as they stream; a zip archive yields one
+ * input per member, read straight from its offset in the archive.
+ */
+export class InputFiles {
+  static async open(path: string, member?: string): Promise<InputFile[]> {
+    if (path.toLowerCase().endsWith('.zip')) {
+      const members = await InputFiles.zipMembers(path);
+      if (members.length === 0) {
+        throw new ValidationError('Archive has no files to load', { path });
+      }
+      const selected = member === undefined ? members : members.filter(entry => entry.name === member);
+      if (selected.length === 0) {
+        throw new ValidationError('Archive has no such member', { path, member, members: members.map(entry => entry.name) });
+      }
+      return selected.map(entry => InputFiles.zipMember(path, entry));
+    }
+
+    if (member !== undefined) {
+      throw new ValidationError('Only zip archives have members', { path, member });
+    }
+    if (await InputFiles.isGzip(path)) {
+      return [{
+        path,
+        name: path.replace(/\.gz$/i, ''),
+        open: () => InputFiles.inflate(fs.createReadStream(path), zlib.createGunzip())
+      }];
+    }
+    return [{ path, name: path, open: () => fs.createReadStream(path) }];
+  }
+
+  // Up to `bytes` from the start of the content, for format and dialect sniffing
+  static async sample(file: InputFile, bytes: number): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let length = 0;
+    const stream = file.open();
+    try {
+      for await (const chunk of stream) {
+        chunks.push(chunk as Buffer);
+        length += (chunk as Buffer).length;
+        if (length >= bytes) break;
+      }
+    } finally {
+      stream.destroy();
+    }
+    return Buffer.concat(chunks).subarray(0, bytes);
+  }
+
+  static async readAll(file: InputFile): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of file.open()) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  // Over the uncompressed content, so an export is recognised however it was delivered
+  static async hash(file: InputFile): Promise<string> {
+    const hash = crypto.createHash('sha256');
+    for await (const chunk of file.open()) {
+      hash.update(chunk as Buffer);
+    }
+    return hash.digest('hex');
+  }
+
+  private static async isGzip(path: string): Promise<boolean> {
+    const handle = await fs.promises.open(path, 'r');
+    try {
+      const head = Buffer.alloc(2);
+      const { bytesRead } = await handle.read(head, 0, 2, 0);
+      return bytesRead === 2 && head[0] === GZIP_MAGIC[0] && head[1] === GZIP_MAGIC[1];
+    } finally {
+      await handle.close();
+    }
+  }
+
+  // Errors on either side surface on the returned stream
+  private static inflate(source: Readable, inflater: zlib.Gunzip | zlib.InflateRaw): Readable {
+    return pipeline(source, inflater, () => undefined);
+  }
+
+  private static zipMember(archive: string, entry: ZipEntry): InputFile {
+    const gzipped = entry.name.toLowerCase().endsWith('.gz');
+    return {
+      path: `${archive}!${entry.name}`,
+      name: gzipped ? entry.name.slice(0, -3) : entry.name,
+      archive,
+      open: () => {
+        if (entry.encrypted) {
+          throw new ValidationError('Encrypted archive members are not supported', { archive, member: entry.name });
+        }
+        if (entry.method !== ZIP_STORED && entry.method !== ZIP_DEFLATED) {
+          throw new ValidationError('Unsupported zip compression method', { archive, member: entry.name, method: entry.method });
+        }
+        const raw = entry.compressedSize === 0
+          ? Readable.from([])
+          : fs.createReadStream(archive, { start: entry.dataOffset, end: entry.dataOffset + entry.compressedSize - 1 });
+        const content = entry.method === ZIP_DEFLATED ? InputFiles.inflate(raw, zlib.createInflateRaw()) : raw;
+        return gzipped ? InputFiles.inflate(content, zlib.createGunzip()) : content;
+      }
+    };
+  }
+
+  // Members as listed by the central directory, which holds sizes even when local headers defer them
+  private static async zipMembers(path: string): Promise<ZipEntry[]> {
+    const handle = await fs.promises.open(path, 'r');
+    try {
+      const { size } = await handle.stat();
+      const read = async (position: number, length: number) => {
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await handle.read(buffer, 0, length, position);
+        return buffer.subarray(0, bytesRead);
+      };
+
+      const tailStart = Math.max(0, size - ZIP_END_SEARCH_BYTES);
+      const tail = await read(tailStart, size - tailStart);
+      let end = -1;
+      for (let i = tail.length - 22; i >= 0; i--) {
+        if (tail.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+          end = i;
+          break;
+        }
+      }
+      if (end < 0) {
+        throw new ValidationError('Not a zip archive', { path });
+      }
+
+      const entryCount = tail.readUInt16LE(end + 10);
+      const directorySize = tail.readUInt32LE(end + 12);
+      const directoryOffset = tail.readUInt32LE(end + 16);
+      if (entryCount === 0xFFFF || directoryOffset === 0xFFFFFFFF) {
+        throw new ValidationError('ZIP64 archives are not supported', { path });
+      }
+
+      const directory = await read(directoryOffset, directorySize);
+      const entries: ZipEntry[] = [];
+      for (let offset = 0, i = 0; i < entryCount; i++) {
+        if (offset + 46 > directory.length || directory.readUInt32LE(offset) !== ZIP_CENTRAL_DIRECTORY_ENTRY) {
+          throw new ProcessingError('Corrupt zip central directory', { path, entry: i });
+        }
+        const flags = directory.readUInt16LE(offset + 8);
+        const nameLength = directory.readUInt16LE(offset + 28);
+        const extraLength = directory.readUInt16LE(offset + 30);
+        const commentLength = directory.readUInt16LE(offset + 32);
+        const localOffset = directory.readUInt32LE(offset + 42);
+        // Bit 11: UTF-8 names; older tools write code page 437, close enough to latin1 for file names
+        const name = directory.toString(flags & 0x800 ? 'utf-8' : 'latin1', offset + 46, offset + 46 + nameLength);
+
+        if (!IGNORED_MEMBER.test(name)) {
+          const local = await read(localOffset, 30);
+          if (local.length < 30 || local.readUInt32LE(0) !== ZIP_LOCAL_HEADER) {
+            throw new ProcessingError('Corrupt zip member header', { path, member: name });
+          }
+          entries.push({
+            name,
+            method: directory.readUInt16LE(offset + 10),
+            encrypted: (flags & 0x1) !== 0,
+            dataOffset: localOffset + 30 + local.readUInt16LE(26) + local.readUInt16LE(28),
+            compressedSize: directory.readUInt32LE(offset + 20)
+          });
+        }
+        offset += 46 + nameLength + extraLength + commentLength;
+      }
+      return entries;
+    } finally {
+      await handle.close();
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import { DetectionCandidate, DetectionResult, FieldMap, HeaderMatch, Integration } from './types.js';
+import { DerivedFields } from './derived-fields.js';
+
+// Share of an integration's mapped columns a file must have
+export const DETECTION_THRESHOLD = 0.7;
+// Candidates scoring within this of the best are too close to choose between
+export const AMBIGUITY_MARGIN = 0.1;
+
+/**
+ * Picks the integration a file belongs to from its headers. Headers are compared after
+ * normalisation and through each field's aliases; integrations missing a signature
+ * header are ruled out, and a near tie picks nothing rather than guessing.
+ */
+export class IntegrationDetector {
+  // Case, accents, punctuation and runs of whitespace don't distinguish headers
+  static normaliseHeader(header: string): string {
+    return header
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim();
+  }
+
+  static detect(integrations: Integration[], headers: string[]): DetectionResult {
+    const candidates = integrations
+      .map(integration => IntegrationDetector.score(integration, headers))
+      .sort((a, b) => b.score - a.score || a.integration.name.localeCompare(b.integration.name));
+    const eligible = candidates.filter(candidate => candidate.eligible);
+
+    if (eligible.length === 0) {
+      const best = candidates[0];
+      const reason = !best
+        ? 'no active integrations'
+        : best.missingSignature.length > 0 && best.score > DETECTION_THRESHOLD
+          ? `best candidate ${best.integration.name} is missing signature header(s) ${best.missingSignature.join(', ')}`
+          : `no integration matches more than ${Math.round(DETECTION_THRESHOLD * 100)}% of its columns` +
+            (best ? ` (best: ${best.integration.name} at ${Math.round(best.score * 100)}%)` : '');
+      return { match: null, candidates, ambiguous: false, reason };
+    }
+
+    const [best, runnerUp] = eligible;
+    if (runnerUp && best.score - runnerUp.score < AMBIGUITY_MARGIN) {
+      const tied = eligible.filter(candidate => best.score - candidate.score < AMBIGUITY_MARGIN);
+      return {
+        match: null,
+        candidates,
+        ambiguous: true,
+        reason: `${tied.map(candidate => `${candidate.integration.name} (${Math.round(candidate.score * 100)}%)`).join(', ')} match almost equally; ` +
+          'name the integration or add signature_headers to tell them apart'
+      };
+    }
+
+    return {
+      match: {
+        integration: best.integration,
+        score: best.score,
+        columns: Object.fromEntries(best.matched.map(match => [match.column, match.header]))
+      },
+      candidates,
+      ambiguous: false
+    };
+  }
+
+  static score(integration: Integration, headers: string[]): DetectionCandidate {
+    const { matched, missing } = IntegrationDetector.match(integration.field_mapping, headers);
+    const normalised = new Set(headers.map(IntegrationDetector.normaliseHeader));
+    const missingSignature = (integration.signature_headers || [])
+      .filter(header => !normalised.has(IntegrationDetector.normaliseHeader(header)));
+    const total = matched.length + missing.length;
+    const score = total === 0 ? 0 : matched.length / total;
+
+    return {
+      integration,
+      score,
+      matched,
+      missing,
+      missingSignature,
+      eligible: score > DETECTION_THRESHOLD && missingSignature.length === 0
+    };
+  }
+
+  // Mapped column → file header, for a file loaded with a named integration
+  static resolveColumns(integration: Integration, headers: string[]): Record<string, string> {
+    const { matched } = IntegrationDetector.match(integration.field_mapping, headers);
+    return Object.fromEntries(matched.map(match => [match.column, match.header]));
+  }
+
+  // Re-keys a record by the mapping's column names so transforms find each value
+  static canonicalise(record: Record<string, string>, columns: Record<string, string>): Record<string, string> {
+    const result = { ...record };
+    for (const [column, header] of Object.entries(columns)) {
+      if (column !== header) {
+        result[column] = record[header];
+      }
+    }
+    return result;
+  }
+
+  private static match(fieldMapping: Record<string, FieldMap>, headers: string[]): { matched: HeaderMatch[]; missing: string[] } {
+    const byNormalised = new Map<string, string>();
+    headers.forEach(header => {
+      const key = IntegrationDetector.normaliseHeader(header);
+      if (!byNormalised.has(key)) byNormalised.set(key, header);
+    });
+
+    const matched: HeaderMatch[] = [];
+    const missing: string[] = [];
+    for (const column of DerivedFields.sourceColumns(fieldMapping)) {
+      const found = IntegrationDetector.find(column, IntegrationDetector.aliasesOf(fieldMapping, column), headers, byNormalised);
+      if (found) matched.push(found);
+      else missing.push(column);
+    }
+    return { matched, missing };
+  }
+
+  private static find(column: string, aliases: string[], headers: string[], byNormalised: Map<string, string>): HeaderMatch | null {
+    if (headers.includes(column)) {
+      return { column, header: column, via: 'exact' };
+    }
+    const normalised = byNormalised.get(IntegrationDetector.normaliseHeader(column));
+    if (normalised !== undefined) {
+      return { column, header: normalised, via: 'normalised' };
+    }
+    for (const alias of aliases) {
+      const header = headers.includes(alias) ? alias : byNormalised.get(IntegrationDetector.normaliseHeader(alias));
+      if (header !== undefined) {
+        return { column, header, via: 'alias' };
+      }
+    }
+    return null;
+  }
+
+  // Aliases belong to plain fields; derived fields' source columns are matched by name only
+  private static aliasesOf(fieldMapping: Record<string, FieldMap>, column: string): string[] {
+    const fieldMap = fieldMapping[column];
+    return fieldMap && !DerivedFields.isDerived(fieldMap) && Array.isArray(fieldMap.aliases) ? fieldMap.aliases : [];
+  }
+}
@@ -0,0 +1,188 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+import { DefinitionChange, DefinitionFormat, Integration, IntegrationDefinition } from './types.js';
+import { ValidationError, Validators } from './utils.js';
+import { DRIFT_POLICIES } from './schema-drift.js';
+
+const TABLES = ['orders', 'restaurants', 'ratings'];
+const DEFINITION_KEYS = ['name', 'platform', 'tables', 'timezone', 'number_locale', 'signature_headers', 'drift_policy', 'is_active', 'field_mapping', 'status_rules'];
+
+/**
+ * Reads and writes integration mapping files (JSON or YAML). A file holds one
+ * definition or a list of them; the platform is given by name so files move between
+ * databases. Field-level checks are left to Database.upsertIntegration.
+ */
+export class IntegrationFiles {
+  static formatFor(filePath: string, override?: string): DefinitionFormat {
+    const format = override ?? ({ '.json': 'json', '.yaml': 'yaml', '.yml': 'yaml' } as Record<string, string>)[path.extname(filePath).toLowerCase()];
+    if (format !== 'json' && format !== 'yaml') {
+      throw new ValidationError('Mapping files must be .json, .yaml or .yml', { filePath, format: override });
+    }
+    return format;
+  }
+
+  static async read(filePath: string, format?: DefinitionFormat): Promise<IntegrationDefinition[]> {
+    const text = await fs.promises.readFile(filePath, 'utf8').catch((error: unknown) => {
+      throw new ValidationError('Cannot read mapping file', { filePath, originalError: error });
+    });
+    return IntegrationFiles.parse(text, format ?? IntegrationFiles.formatFor(filePath), filePath);
+  }
+
+  static parse(text: string, format: DefinitionFormat, source: string = 'input'): IntegrationDefinition[] {
+    let parsed: unknown;
+    try {
+      parsed = format === 'yaml' ? YAML.parse(text) : JSON.parse(text);
+    } catch (error: unknown) {
+      throw new ValidationError(`Invalid ${format.toUpperCase()} in ${source}: ${error instanceof Error ? error.message : String(error)}`, { source });
+    }
+
+    const definitions = (Array.isArray(parsed) ? parsed : [parsed]) as IntegrationDefinition[];
+    const problems = definitions.flatMap((definition, index) =>
+      IntegrationFiles.validate(definition).map(problem => definitions.length > 1 ? `#${index + 1}: ${problem}` : problem)
+    );
+    if (problems.length > 0) {
+      throw new ValidationError(`Invalid mapping file ${source}: ${problems.join('; ')}`, { source, problems });
+    }
+    return definitions;
+  }
+
+  // Shape of the definition itself; field rules are checked on import
+  static validate(definition: any): string[] {
+    if (!definition || typeof definition !== 'object' || Array.isArray(definition)) {
+      return ['definition must be an object'];
+    }
+
+    const problems: string[] = [];
+    if (typeof definition.name !== 'string' || !Validators.isValidIntegrationKey(definition.name)) {
+      problems.push('name must be lowercase letters, digits and underscores');
+    }
+    if (!Validators.isValidString(definition.platform)) {
+      problems.push('platform must name a platform');
+    }
+    if (!Array.isArray(definition.tables) || definition.tables.length === 0) {
+      problems.push(`tables must list at least one of ${TABLES.join(', ')}`);
+    } else {
+      definition.tables
+        .filter((table: any) => !TABLES.includes(table))
+        .forEach((table: any) => problems.push(`unknown table '${table}'`));
+    }
+    if (!definition.field_mapping || typeof definition.field_mapping !== 'object' || Array.isArray(definition.field_mapping)) {
+      problems.push('field_mapping must map source columns to fields');
+    } else {
+      Object.entries(definition.field_mapping)
+        .filter(([, fieldMap]: [string, any]) => !fieldMap || typeof fieldMap.target !== 'string')
+        .forEach(([key]) => problems.push(`field_mapping '${key}' needs a target`));
+    }
+    if (definition.is_active !== undefined && typeof definition.is_active !== 'boolean') {
+      problems.push('is_active must be true or false');
+    }
+    if (definition.timezone !== undefined && definition.timezone !== null && typeof definition.timezone !== 'string') {
+      problems.push('timezone must be a string');
+    }
+    if (definition.number_locale !== undefined && definition.number_locale !== null && typeof definition.number_locale !== 'string') {
+      problems.push('number_locale must be a string');
+    }
+    if (definition.signature_headers !== undefined && definition.signature_headers !== null &&
+        (!Array.isArray(definition.signature_headers) || definition.signature_headers.some((header: any) => !Validators.isValidString(header)))) {
+      problems.push('signature_headers must be a list of header names');
+    }
+    if (definition.drift_policy !== undefined && definition.drift_policy !== null && !DRIFT_POLICIES.includes(definition.drift_policy)) {
+      problems.push(`drift_policy must be one of ${DRIFT_POLICIES.join(', ')}`);
+    }
+    Object.keys(definition)
+      .filter(key => !DEFINITION_KEYS.includes(key))
+      .forEach(key => problems.push(`unknown key '${key}'`));
+    return problems;
+  }
+
+  static toDefinition(integration: Integration, platformName: string): IntegrationDefinition {
+    const definition: IntegrationDefinition = {
+      name: integration.name,
+      platform: platformName,
+      tables: integration.tables,
+      is_active: integration.is_active,
+      field_mapping: integration.field_mapping
+    };
+    if (integration.timezone) definition.timezone = integration.timezone;
+    if (integration.number_locale) definition.number_locale = integration.number_locale;
+    if (integration.signature_headers?.length) definition.signature_headers = integration.signature_headers;
+    if (integration.drift_policy) definition.drift_policy = integration.drift_policy;
+    if (integration.status_rules) definition.status_rules = integration.status_rules;
+    return definition;
+  }
+
+  static toIntegration(definition: IntegrationDefinition, platformId: number): Partial<Integration> {
+    return {
+      name: definition.name,
+      platform_id: platformId,
+      tables: definition.tables,
+      timezone: definition.timezone ?? null,
+      number_locale: definition.number_locale ?? null,
+      signature_headers: definition.signature_headers ?? null,
+      drift_policy: definition.drift_policy ?? null,
+      // Left out, a saved integration keeps its active state and a new one starts active
+      is_active: definition.is_active,
+      field_mapping: definition.field_mapping,
+      status_rules: definition.status_rules ?? null
+    };
+  }
+
+  static serialise(definitions: IntegrationDefinition[], format: DefinitionFormat): string {
+    const value = definitions.length === 1 ? definitions[0] : definitions;
+    return format === 'yaml' ? YAML.stringify(value) : JSON.stringify(value, null, 2) + '\n';
+  }
+
+  /**
+   * Changes that importing `incoming` would make to `stored`. Key order is ignored, as
+   * JSONB does not keep it; lists of plain values are compared whole.
+   */
+  static diff(stored: IntegrationDefinition | null, incoming: IntegrationDefinition): DefinitionChange[] {
+    const changes: DefinitionChange[] = [];
+    IntegrationFiles.compare(
+      stored ? IntegrationFiles.comparable(stored) : {},
+      IntegrationFiles.comparable({ ...incoming, is_active: incoming.is_active ?? stored?.is_active }),
+      '',
+      changes
+    );
+    return changes;
+  }
+
+  // Defaults applied on import, so an omitted key does not show up as a change
+  private static comparable(definition: IntegrationDefinition): Record<string, any> {
+    return {
+      ...definition,
+      is_active: definition.is_active ?? true,
+      timezone: definition.timezone ?? null,
+      number_locale: definition.number_locale ?? null,
+      signature_headers: definition.signature_headers?.length ? definition.signature_headers : null,
+      drift_policy: definition.drift_policy ?? null,
+      status_rules: definition.status_rules ?? null
+    };
+  }
+
+  private static compare(before: any, after: any, at: string, changes: DefinitionChange[]): void {
+    const isObject = (value: any) => value !== null && typeof value === 'object';
+    const nested = isObject(before) && isObject(after) && Array.isArray(before) === Array.isArray(after) &&
+      !(Array.isArray(before) && [...before, ...after].every(item => !isObject(item)));
+
+    if (!nested) {
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        if (before === undefined) changes.push({ path: at, kind: 'added', after });
+        else if (after === undefined) changes.push({ path: at, kind: 'removed', before });
+        else changes.push({ path: at, kind: 'changed', before, after });
+      }
+      return;
+    }
+
+    const keys = Array.isArray(before)
+      ? Array.from({ length: Math.max(before.length, after.length) }, (_, index) => index)
+      : [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    for (const key of keys) {
+      const segment = typeof key === 'number'
+        ? `[${key}]`
+        : /^[A-Za-z_][A-Za-z0-9_]*$/.test(key) ? `${at ? '.' : ''}${key}` : `[${JSON.stringify(key)}]`;
+      IntegrationFiles.compare((before as any)[key], (after as any)[key], at + segment, changes);
+    }
+  }
+}
@@ -0,0 +1,260 @@
+import { FieldMap, Integration, MappingProblem, TransformValueType } from './types.js';
+import { DerivedFields } from './derived-fields.js';
+import { IntegrationDetector } from './integration-detector.js';
+import { DRIFT_POLICIES } from './schema-drift.js';
+import { TransformRegistry } from './transforms.js';
+import { DateParser } from './date-parser.js';
+import { NumberParser } from './number-parser.js';
+import { StatusRules, ORDER_STATUSES } from './status-rules.js';
+
+export const TARGET_TABLES = ['orders', 'ratings', 'restaurants'];
+
+const FIELD_TYPES: NonNullable<FieldMap['type']>[] = ['string', 'number', 'boolean', 'date', 'enum'];
+
+type ColumnKind = 'string' | 'number' | 'date' | 'enum';
+
+interface TargetColumn {
+  // Tables the value is written to
+  tables: string[];
+  kind: ColumnKind;
+  values?: readonly string[];
+}
+
+// Mapping targets the loader writes, mirroring SCHEMA.sql and IngestionEngine.toOrderData / toRating
+const TARGET_COLUMNS: Record<string, TargetColumn> = {
+  // The restaurant is resolved for every row, whichever tables are targeted
+  restaurant_name: { tables: ['restaurants', 'orders', 'ratings'], kind: 'string' },
+  restaurant_external_id: { tables: ['restaurants', 'orders', 'ratings'], kind: 'string' },
+  platform_order_id: { tables: ['orders', 'ratings'], kind: 'string' },
+  order_status: { tables: ['orders'], kind: 'enum', values: ORDER_STATUSES },
+  delivery_type: { tables: ['orders'], kind: 'enum', values: ['DELIVERY', 'COLLECTION', 'PICKUP', 'UNKNOWN'] },
+  order_value: { tables: ['orders'], kind: 'number' },
+  basket_size: { tables: ['orders'], kind: 'number' },
+  discount_amount: { tables: ['orders'], kind: 'number' },
+  order_datetime: { tables: ['orders'], kind: 'date' },
+  restaurant_wait_time_minutes: { tables: ['orders'], kind: 'number' },
+  total_delivery_time_minutes: { tables: ['orders'], kind: 'number' },
+  courier_wait_time_minutes: { tables: ['orders'], kind: 'number' },
+  prep_time_minutes: { tables: ['orders'], kind: 'number' },
+  currency_code: { tables: ['orders'], kind: 'string' },
+  auto_accept_status: { tables: ['orders'], kind: 'string' },
+  rating_value: { tables: ['ratings'], kind: 'number' },
+  comment: { tables: ['ratings'], kind: 'string' },
+  rating_date: { tables: ['ratings'], kind: 'date' }
+};
+
+// Targets every row needs for each table an integration writes
+const REQUIRED_TARGETS: Record<string, string[]> = {
+  orders: ['platform_order_id', 'restaurant_name'],
+  ratings: ['restaurant_name', 'rating_value'],
+  restaurants: ['restaurant_name']
+};
+
+// Value types each column kind can store
+const ACCEPTS: Record<ColumnKind, TransformValueType[]> = {
+  string: ['string', 'number', 'any'],
+  number: ['number', 'any'],
+  date: ['date', 'any'],
+  enum: ['string', 'any']
+};
+
+/**
+ * Checks an integration as a whole before it is saved: tables, the target and type of
+ * every mapped field, transforms, date settings and status rules. Every problem is
+ * returned; errors block saving, warnings describe values that would be ignored.
+ */
+export class IntegrationSchema {
+  static validate(integration: Partial<Integration>): MappingProblem[] {
+    const problems: MappingProblem[] = [];
+    const error = (message: string, field?: string) => problems.push({ severity: 'error', field, message });
+    const warning = (message: string, field?: string) => problems.push({ severity: 'warning', field, message });
+
+    const tables = Array.isArray(integration.tables) ? integration.tables : [];
+    const fieldMapping = integration.field_mapping || {};
+
+    if (tables.length === 0) {
+      error(`tables must list at least one of ${TARGET_TABLES.join(', ')}`);
+    }
+    tables.filter(table => !TARGET_TABLES.includes(table))
+      .forEach(table => error(`unknown table '${table}' (expected ${TARGET_TABLES.join(', ')})`));
+
+    if (Object.keys(fieldMapping).length === 0) {
+      error('field_mapping is empty');
+    }
+    if (integration.timezone && !DateParser.isValidTimezone(integration.timezone)) {
+      error(`timezone '${integration.timezone}' is not a known IANA zone`);
+    }
+    if (integration.number_locale && !NumberParser.isValidLocale(integration.number_locale)) {
+      error(`number_locale '${integration.number_locale}' is not a supported locale`);
+    }
+
+    if (integration.signature_headers !== undefined && integration.signature_headers !== null) {
+      if (!Array.isArray(integration.signature_headers) || integration.signature_headers.some(header => typeof header !== 'string' || header.trim() === '')) {
+        error('signature_headers must be a list of header names');
+      }
+    }
+    if (integration.drift_policy && !DRIFT_POLICIES.includes(integration.drift_policy)) {
+      error(`drift_policy must be one of ${DRIFT_POLICIES.join(', ')}`);
+    }
+    IntegrationSchema.validateHeaders(fieldMapping, error);
+
+    // Fields nothing stores are still fine when a status rule reads them
+    const ruleFields = new Set((integration.status_rules?.rules || []).flatMap(rule => rule.when.map(condition => condition.field)));
+    const targets = new Map<string, string>();
+
+    // Already prefixed with the field key
+    DerivedFields.validate(fieldMapping).forEach(problem => error(problem));
+
+    for (const [key, fieldMap] of Object.entries(fieldMapping)) {
+      IntegrationSchema.validateField(key, fieldMap, tables, ruleFields, error, warning);
+
+      if (typeof fieldMap?.target === 'string') {
+        if (targets.has(fieldMap.target)) {
+          warning(`'${targets.get(fieldMap.target)}' also targets ${fieldMap.target}; the later column wins`, key);
+        }
+        targets.set(fieldMap.target, key);
+      }
+    }
+
+    for (const table of tables) {
+      (REQUIRED_TARGETS[table] || [])
+        .filter(target => !targets.has(target))
+        .forEach(target => error(`${table} integrations must map a field to ${target}`));
+    }
+
+    if (integration.status_rules) {
+      if (!tables.includes('orders')) {
+        error('status_rules only apply to integrations that target the orders table');
+      } else {
+        StatusRules.validate(integration.status_rules, [...targets.keys()]).forEach(problem => error(`status_rules: ${problem}`));
+        if (targets.has('order_status')) {
+          warning('order_status is always set by status_rules; the mapped value is only read by rules that name it', targets.get('order_status'));
+        }
+      }
+    }
+
+    return problems;
+  }
+
+  static errors(problems: MappingProblem[]): MappingProblem[] {
+    return problems.filter(problem => problem.severity === 'error');
+  }
+
+  static format(problem: MappingProblem): string {
+    return problem.field ? `'${problem.field}': ${problem.message}` : problem.message;
+  }
+
+  private static validateField(
+    key: string,
+    fieldMap: FieldMap,
+    tables: string[],
+    ruleFields: Set<string>,
+    error: (message: string, field?: string) => void,
+    warning: (message: string, field?: string) => void
+  ): void {
+    if (!fieldMap || typeof fieldMap.target !== 'string' || fieldMap.target === '') {
+      error('target is required', key);
+      return;
+    }
+
+    if (fieldMap.type !== undefined && !FIELD_TYPES.includes(fieldMap.type)) {
+      error(`unknown type '${fieldMap.type}' (expected ${FIELD_TYPES.join(', ')})`, key);
+    }
+    if (fieldMap.type === 'enum' && (!Array.isArray(fieldMap.enum_values) || fieldMap.enum_values.length === 0 ||
+        fieldMap.enum_values.some(value => typeof value !== 'string'))) {
+      error('enum fields need enum_values listing the accepted strings', key);
+    }
+    if (fieldMap.enum_values !== undefined && fieldMap.type !== 'enum') {
+      warning('enum_values is ignored unless type is enum', key);
+    }
+
+    if (fieldMap.transform !== undefined) {
+      TransformRegistry.validate(fieldMap.transform, fieldMap.type).forEach(problem => error(problem, key));
+    }
+
+    if (fieldMap.format !== undefined) {
+      const producesDate = fieldMap.type === 'date' || fieldMap.derive === 'datetime' ||
+        (fieldMap.transform !== undefined && TransformRegistry.outputType(fieldMap.transform) === 'date');
+      if (!producesDate) {
+        error('format only applies to date fields', key);
+      }
+      const formats = Array.isArray(fieldMap.format) ? fieldMap.format : [fieldMap.format];
+      if (formats.length === 0) {
+        error('format must list at least one pattern', key);
+      }
+      formats.forEach(format => DateParser.validateFormat(format).forEach(problem => error(problem, key)));
+    }
+
+    if (fieldMap.locale !== undefined) {
+      const producesNumber = fieldMap.type === 'number' || fieldMap.derive === 'sum' ||
+        (fieldMap.transform !== undefined && TransformRegistry.outputType(fieldMap.transform) === 'number');
+      if (!producesNumber) {
+        error('locale only applies to number fields', key);
+      }
+      if (!NumberParser.isValidLocale(fieldMap.locale)) {
+        error(`locale '${fieldMap.locale}' is not a supported locale`, key);
+      }
+    }
+
+    const column = TARGET_COLUMNS[fieldMap.target];
+    if (!column) {
+      if (!ruleFields.has(fieldMap.target)) {
+        error(`target '${fieldMap.target}' is not a column the loader writes and no status rule reads it`, key);
+      }
+      return;
+    }
+
+    if (!column.tables.some(table => tables.includes(table))) {
+      warning(`${fieldMap.target} is only stored in ${column.tables.join('/')}, which this integration does not target; the value is ignored`, key);
+      return;
+    }
+
+    const produced = IntegrationSchema.producedType(fieldMap);
+    if (!ACCEPTS[column.kind].includes(produced)) {
+      error(`produces ${produced} but ${fieldMap.target} stores ${column.kind === 'enum' ? 'one of ' + column.values!.join(', ') : column.kind}`, key);
+    } else if (column.kind === 'enum' && fieldMap.type === 'enum' && fieldMap.transform === undefined && Array.isArray(fieldMap.enum_values)) {
+      const unknown = fieldMap.enum_values.filter(value => !column.values!.includes(value));
+      if (unknown.length > 0) {
+        error(`enum_values ${unknown.join(', ')} are not valid ${fieldMap.target} values (${column.values!.join(', ')})`, key);
+      }
+    }
+  }
+
+  // Each header name, after normalisation, may only point at one column
+  private static validateHeaders(fieldMapping: Record<string, FieldMap>, error: (message: string, field?: string) => void): void {
+    const owners = new Map<string, string>();
+    const claim = (header: string, column: string, field: string) => {
+      const key = IntegrationDetector.normaliseHeader(header);
+      const owner = owners.get(key);
+      if (owner !== undefined && owner !== column) {
+        error(`header '${header}' would match both '${owner}' and '${column}'`, field);
+      } else {
+        owners.set(key, column);
+      }
+    };
+
+    for (const column of DerivedFields.sourceColumns(fieldMapping)) {
+      claim(column, column, column);
+    }
+    for (const [key, fieldMap] of Object.entries(fieldMapping)) {
+      if (!fieldMap || fieldMap.aliases === undefined) continue;
+      if (!Array.isArray(fieldMap.aliases) || fieldMap.aliases.some(alias => typeof alias !== 'string' || alias.trim() === '')) {
+        error('aliases must be a list of header names', key);
+      } else if (DerivedFields.isDerived(fieldMap)) {
+        error('aliases only apply to fields read from a single column; derived fields match their sources by name', key);
+      } else {
+        fieldMap.aliases.forEach(alias => claim(alias, key, key));
+      }
+    }
+  }
+
+  // What the loader hands on for a field: the transform's output, else the derived or declared type
+  private static producedType(fieldMap: FieldMap): TransformValueType {
+    if (fieldMap.transform !== undefined) {
+      return TransformRegistry.outputType(fieldMap.transform);
+    }
+    if (fieldMap.derive === 'datetime') return 'date';
+    if (fieldMap.derive === 'sum') return 'number';
+    return fieldMap.type === 'enum' || fieldMap.type === undefined ? 'string' : fieldMap.type;
+  }
+}
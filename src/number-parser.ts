@@ -0,0 +1,142 @@
+import { ProcessingError } from './utils.js';
+
+export const DEFAULT_NUMBER_LOCALE = 'en-GB';
+
+// What may surround the digits: spaces, a sign, a percent sign, a currency symbol ("£", "US$") or code ("GBP")
+const AFFIX_TOKEN = /^(?:\s+|[-+]|%|[A-Z]{0,2}\p{Sc}|[A-Z]{3}(?![A-Za-z]))/u;
+const APOSTROPHE = /[\u2019']/;
+
+interface Separators {
+  group: string;
+  decimal: string;
+  // Digits per group above the lowest three: 3, or 2 where lakhs are grouped (12,34,567)
+  secondary: number;
+}
+
+/**
+ * Reads numbers as a locale writes them: its thousands and decimal separators, currency
+ * symbols and codes, negatives as "-5", "(5.00)" or "5-", and percentages. The result is
+ * exact decimal text ("-1234.56"), so money never passes through floating point.
+ */
+export class NumberParser {
+  private static separators = new Map<string, Separators>();
+
+  static isValidLocale(locale: string): boolean {
+    if (typeof locale !== 'string' || locale === '') return false;
+    try {
+      return Intl.NumberFormat.supportedLocalesOf([locale]).length > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  // Blank is null; anything else that isn't a number in the locale throws
+  static parse(value: string, locale: string = DEFAULT_NUMBER_LOCALE): string | null {
+    if (value === undefined || value === null) return null;
+    let text = String(value).trim().replace(/\u2212/g, '-');
+    if (text === '') return null;
+    const fail = (reason: string) => new ProcessingError('Unparseable number', { value, locale, reason });
+
+    let negative = false;
+    const parenthesised = /^\((.*)\)$/.exec(text);
+    if (parenthesised) {
+      negative = true;
+      text = parenthesised[1].trim();
+    }
+
+    const { group, decimal, secondary } = NumberParser.separatorsFor(locale);
+    // A fraction may start at the decimal separator (".5"); the digits end at the last digit
+    const first = text.search(/\d/);
+    if (first < 0) throw fail('no digits');
+    const start = first > 0 && text[first - 1] === decimal ? first - 1 : first;
+    const end = /\d\D*$/.exec(text)!.index + 1;
+
+    let signs = 0, percent = false, symbols = 0, codes = 0;
+    for (let affix of [text.slice(0, start), text.slice(end)]) {
+      while (affix !== '') {
+        const token = AFFIX_TOKEN.exec(affix)?.[0];
+        if (token === undefined) throw fail(`unexpected '${affix}'`);
+        if (token === '-' || token === '+') {
+          signs++;
+          negative = negative || token === '-';
+        } else if (token === '%') {
+          if (percent) throw fail('more than one percent sign');
+          percent = true;
+        } else if (/\p{Sc}/u.test(token)) {
+          symbols++;
+        } else if (token.trim() !== '') {
+          codes++;
+        }
+        affix = affix.slice(token.length);
+      }
+    }
+    if (signs > 1 || (signs > 0 && parenthesised)) throw fail('more than one sign');
+    if (symbols > 1 || codes > 1) throw fail('more than one currency');
+
+    // Spaces and apostrophes are written interchangeably for the locales that group with them
+    let digits = text.slice(start, end);
+    if (/\s/.test(group)) digits = digits.replace(/\s/g, group);
+    if (APOSTROPHE.test(group)) digits = digits.replace(new RegExp(APOSTROPHE, 'g'), group);
+
+    const [whole, fraction = '', ...rest] = digits.split(decimal);
+    if (rest.length > 0) throw fail(`more than one decimal separator '${decimal}'`);
+    if (digits.endsWith(decimal) || !/^\d*$/.test(fraction)) throw fail('malformed fraction');
+    // Groups must have the locale's sizes, so a value written in another locale fails rather than loads wrong
+    const groups = whole.split(group);
+    const grouped = groups.length === 1 || (groups[0].length >= 1 && groups[0].length <= secondary &&
+      groups[groups.length - 1].length === 3 && groups.slice(1, -1).every(part => part.length === secondary));
+    if (groups.some(part => !/^\d*$/.test(part)) || !grouped) {
+      throw fail(`digits are not grouped by '${group}' as ${locale} writes them`);
+    }
+
+    let integer = groups.join('');
+    let decimals = fraction;
+    if (percent) {
+      integer = integer.padStart(3, '0');
+      decimals = integer.slice(-2) + decimals;
+      integer = integer.slice(0, -2);
+    }
+    return NumberParser.canonical(negative, integer, decimals);
+  }
+
+  // Exact sum of decimal texts
+  static add(a: string, b: string): string {
+    const places = Math.max(NumberParser.places(a), NumberParser.places(b));
+    const sum = NumberParser.scaled(a, places) + NumberParser.scaled(b, places);
+    const digits = (sum < 0n ? -sum : sum).toString().padStart(places + 1, '0');
+    return NumberParser.canonical(sum < 0n, digits.slice(0, digits.length - places), digits.slice(digits.length - places));
+  }
+
+  private static places(decimal: string): number {
+    return decimal.split('.')[1]?.length ?? 0;
+  }
+
+  private static scaled(decimal: string, places: number): bigint {
+    const negative = decimal.startsWith('-');
+    const [integer, fraction = ''] = decimal.replace('-', '').split('.');
+    const value = BigInt(integer + fraction.padEnd(places, '0'));
+    return negative ? -value : value;
+  }
+
+  private static canonical(negative: boolean, integer: string, fraction: string): string {
+    const whole = integer.replace(/^0+/, '') || '0';
+    const decimals = fraction.replace(/0+$/, '');
+    const text = decimals ? `${whole}.${decimals}` : whole;
+    return negative && text !== '0' ? `-${text}` : text;
+  }
+
+  private static separatorsFor(locale: string): Separators {
+    let separators = NumberParser.separators.get(locale);
+    if (!separators) {
+      const parts = new Intl.NumberFormat(locale, { useGrouping: true, numberingSystem: 'latn' }).formatToParts(1234567.5);
+      const integers = parts.filter(part => part.type === 'integer');
+      separators = {
+        group: parts.find(part => part.type === 'group')?.value ?? ',',
+        decimal: parts.find(part => part.type === 'decimal')?.value ?? '.',
+        secondary: integers.length > 2 ? integers[1].value.length : 3
+      };
+      NumberParser.separators.set(locale, separators);
+    }
+    return separators;
+  }
+}
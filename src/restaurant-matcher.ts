@@ -0,0 +1,121 @@
+import { MatchCandidate, MatchProposal } from './types.js';
+
+export const DEFAULT_MATCH_THRESHOLD = 0.8;
+
+// Words that say nothing about which kitchen a listing belongs to
+const NOISE_WORDS = new Set(['the', 'restaurant', 'restaurants', 'kitchen', 'ltd', 'limited']);
+
+// "Brand - Location", "Brand | Location", "Brand @ Location", "Brand (Location)"
+const LOCATION_SEPARATOR = /\s+[-–—|@]\s+|\s*\(/;
+
+/**
+ * Proposes links between restaurants on different platforms that look like the same
+ * site. Scores are 0-1: name similarity, raised by a shared external id. Nothing is
+ * linked until a proposal is accepted.
+ */
+export class RestaurantMatcher {
+  static normaliseName(name: string): string {
+    const words = name
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/&/g, ' and ')
+      .replace(/['’]/g, '')
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim()
+      .split(' ')
+      .filter(word => word && !NOISE_WORDS.has(word));
+    return words.join(' ');
+  }
+
+  // Dice coefficient over character bigrams, or token containment when one name extends the other
+  static nameSimilarity(a: string, b: string): number {
+    const left = RestaurantMatcher.normaliseName(a);
+    const right = RestaurantMatcher.normaliseName(b);
+    if (!left || !right) return 0;
+    if (left === right) return 1;
+
+    const leftBigrams = RestaurantMatcher.bigrams(left);
+    const rightBigrams = RestaurantMatcher.bigrams(right);
+    let shared = 0;
+    for (const [bigram, count] of leftBigrams) {
+      shared += Math.min(count, rightBigrams.get(bigram) ?? 0);
+    }
+    const total = Math.max(left.length - 1, 1) + Math.max(right.length - 1, 1);
+    const dice = (2 * shared) / total;
+
+    // "Pizza Co" and "Pizza Co Soho" are likely the same listing, but "Pizza" alone says little,
+    // so containment needs two shared words and counts for less the more words it leaves over
+    const leftWords = new Set(left.split(' '));
+    const rightWords = new Set(right.split(' '));
+    const [smaller, larger] = leftWords.size <= rightWords.size ? [leftWords, rightWords] : [rightWords, leftWords];
+    const contained = smaller.size >= 2 && [...smaller].every(word => larger.has(word));
+
+    return Math.max(dice, contained ? 0.6 + 0.3 * smaller.size / larger.size : 0);
+  }
+
+  static score(a: MatchCandidate, b: MatchCandidate): { score: number; reasons: string[] } {
+    const similarity = RestaurantMatcher.nameSimilarity(a.name, b.name);
+    const reasons = [`name similarity ${similarity.toFixed(2)}`];
+    let score = similarity;
+
+    const externalA = a.external_id?.trim().toLowerCase();
+    const externalB = b.external_id?.trim().toLowerCase();
+    if (externalA && externalA === externalB) {
+      reasons.push(`same external id ${a.external_id}`);
+      score = Math.min(1, score + 0.3);
+    }
+
+    return { score: Math.round(score * 1000) / 1000, reasons };
+  }
+
+  /**
+   * Pairs restaurants across platforms that score at least the threshold. Pairs already
+   * at the same location, or already reviewed, are skipped.
+   */
+  static propose(
+    restaurants: MatchCandidate[],
+    reviewed: Set<string> = new Set(),
+    threshold: number = DEFAULT_MATCH_THRESHOLD
+  ): MatchProposal[] {
+    const proposals: MatchProposal[] = [];
+
+    for (let i = 0; i < restaurants.length; i++) {
+      for (let j = i + 1; j < restaurants.length; j++) {
+        const [a, b] = restaurants[i].id < restaurants[j].id ? [restaurants[i], restaurants[j]] : [restaurants[j], restaurants[i]];
+        if (a.platform_id === b.platform_id) continue;
+        if (a.location_id && a.location_id === b.location_id) continue;
+        if (reviewed.has(RestaurantMatcher.pairKey(a.id, b.id))) continue;
+
+        const { score, reasons } = RestaurantMatcher.score(a, b);
+        if (score >= threshold) {
+          proposals.push({ restaurant_id: a.id, candidate_id: b.id, score, reasons });
+        }
+      }
+    }
+
+    return proposals.sort((x, y) => y.score - x.score);
+  }
+
+  static pairKey(restaurantId: number, candidateId: number): string {
+    return restaurantId < candidateId ? `${restaurantId}:${candidateId}` : `${candidateId}:${restaurantId}`;
+  }
+
+  // Brand and location names for a new location, guessed from a listing name
+  static splitName(name: string): { brand: string; location: string } {
+    const [brand, ...rest] = name.split(LOCATION_SEPARATOR);
+    const location = rest.join(' ').replace(/\)\s*$/, '').trim();
+    return brand.trim() && location
+      ? { brand: brand.trim(), location }
+      : { brand: name.trim(), location: name.trim() };
+  }
+
+  private static bigrams(value: string): Map<string, number> {
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < value.length - 1; i++) {
+      const bigram = value.slice(i, i + 2);
+      bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+    }
+    return bigrams;
+  }
+}
@@ -0,0 +1,63 @@
+import { DriftPolicy, Integration, SchemaDrift } from './types.js';
+import { DerivedFields } from './derived-fields.js';
+import { IntegrationDetector } from './integration-detector.js';
+
+export const DRIFT_POLICIES: DriftPolicy[] = ['warn', 'fail', 'continue'];
+export const DEFAULT_DRIFT_POLICY: DriftPolicy = 'warn';
+
+/**
+ * Compares the columns a file has with the integration's mapping and with the headers
+ * of the integration's previous job: unmapped columns, which of them are new since,
+ * mapped columns missing, and mapped columns no row fills in.
+ */
+export class SchemaDriftCheck {
+  // Header part of the drift, known before any row is read
+  static compareHeaders(
+    integration: Integration,
+    headers: string[],
+    columns: Record<string, string>,
+    previousHeaders: string[] | null
+  ): SchemaDrift {
+    const used = new Set(Object.values(columns));
+    const seenBefore = new Set((previousHeaders || []).map(IntegrationDetector.normaliseHeader));
+    const unmapped = headers.filter(header => !used.has(header));
+
+    return {
+      unmapped,
+      // On an integration's first job every unmapped column is new
+      added: unmapped.filter(header => !seenBefore.has(IntegrationDetector.normaliseHeader(header))),
+      missing: DerivedFields.sourceColumns(integration.field_mapping).filter(column => columns[column] === undefined),
+      empty: []
+    };
+  }
+
+  // Counts the rows that fill each mapped column
+  static countFilled(record: Record<string, string>, columns: Record<string, string>, filled: Map<string, number>): void {
+    for (const column of Object.keys(columns)) {
+      const value = record[column];
+      if (value !== undefined && value !== null && String(value).trim() !== '') {
+        filled.set(column, (filled.get(column) ?? 0) + 1);
+      }
+    }
+  }
+
+  static emptyColumns(columns: Record<string, string>, filled: Map<string, number>): string[] {
+    return Object.keys(columns).filter(column => !filled.get(column));
+  }
+
+  static hasDrift(drift: SchemaDrift): boolean {
+    return drift.added.length > 0 || drift.missing.length > 0 || drift.empty.length > 0;
+  }
+
+  static describe(drift: SchemaDrift): string {
+    const parts: string[] = [];
+    if (drift.added.length > 0) parts.push(`new columns ${drift.added.join(', ')}`);
+    if (drift.missing.length > 0) parts.push(`missing mapped columns ${drift.missing.join(', ')}`);
+    if (drift.empty.length > 0) parts.push(`always empty ${drift.empty.join(', ')}`);
+    return parts.join('; ');
+  }
+
+  static policyOf(integration: Integration): DriftPolicy {
+    return integration.drift_policy || DEFAULT_DRIFT_POLICY;
+  }
+}
@@ -0,0 +1,295 @@
+import * as readline from 'readline';
+import * as XLSX from 'xlsx';
+import { CSVReader } from './csv-reader.js';
+import { InputFile, InputFiles } from './input-files.js';
+import { SourceFormat, SourceOptions } from './types.js';
+import { ProcessingError, ValidationError } from './utils.js';
+
+export interface SourceRecord {
+  values: Record<string, string>;
+  // Physical line (CSV, NDJSON), worksheet row (XLSX) or element position (JSON) of the record
+  line: number;
+}
+
+export interface SourceData {
+  headers: string[];
+  records: AsyncIterable<SourceRecord>;
+}
+
+export interface SourceReader {
+  readonly format: SourceFormat;
+  describe(): Promise<string>;
+  read(): Promise<SourceData>;
+}
+
+// NDJSON has no header line, so headers are the union of keys over the first records
+const NDJSON_HEADER_SAMPLE = 100;
+
+const EXTENSION_FORMATS: Record<string, SourceFormat> = {
+  '.csv': 'csv',
+  '.tsv': 'csv',
+  '.txt': 'csv',
+  '.xlsx': 'xlsx',
+  '.xlsm': 'xlsx',
+  '.json': 'json',
+  '.ndjson': 'ndjson',
+  '.jsonl': 'ndjson'
+};
+
+// Source values are fed to the same string transforms as CSV cells
+function toCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value).trim();
+}
+
+function toValues(object: Record<string, unknown>): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const [key, value] of Object.entries(object)) {
+    values[key.trim()] = toCell(value);
+  }
+  return values;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export class CSVSource implements SourceReader {
+  readonly format = 'csv';
+  private reader: CSVReader;
+
+  constructor(file: InputFile) {
+    this.reader = new CSVReader(file);
+  }
+
+  async describe(): Promise<string> {
+    const dialect = await this.reader.detectDialect();
+    const delimiter = dialect.delimiter === '\t' ? '\\t' : dialect.delimiter;
+    return `CSV, ${dialect.encoding}${dialect.hasBom ? ' (BOM)' : ''} with '${delimiter}' delimiter`;
+  }
+
+  async read(): Promise<SourceData> {
+    const iterator = this.reader.records();
+    const first = await iterator.next();
+    if (first.done) {
+      throw new ValidationError('File is empty', { format: this.format });
+    }
+
+    const headers = first.value.fields.map(h => h.trim());
+
+    async function* records(): AsyncGenerator<SourceRecord> {
+      for await (const { fields, line } of { [Symbol.asyncIterator]: () => iterator }) {
+        const values: Record<string, string> = {};
+        headers.forEach((h, i) => values[h] = (fields[i] || '').trim());
+        yield { values, line };
+      }
+    }
+
+    return { headers, records: records() };
+  }
+}
+
+// Date cells as ISO text in the sheet's own wall-clock time; date-only cells drop the midnight
+function isoDateCell(date: Date): string {
+  // SheetJS dates can land a few milliseconds off the second they were entered as
+  const d = new Date(Math.round(date.getTime() / 1000) * 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const day = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+  const time = `${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+  return time === '00:00:00' ? day : `${day} ${time}`;
+}
+
+export class XLSXSource implements SourceReader {
+  readonly format = 'xlsx';
+
+  constructor(private file: InputFile, private options: SourceOptions = {}) {}
+
+  async describe(): Promise<string> {
+    return `XLSX, sheet '${this.options.sheet || 'first'}', header row ${this.options.headerRow || 1}`;
+  }
+
+  async read(): Promise<SourceData> {
+    // Workbooks are zipped XML and have to be loaded whole
+    const workbook = XLSX.read(await InputFiles.readAll(this.file), { type: 'buffer', cellDates: true });
+    const sheetName = this.options.sheet || workbook.SheetNames[0];
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet) {
+      throw new ValidationError('Worksheet not found', { sheet: sheetName, available: workbook.SheetNames });
+    }
+    // The cached text of a date cell follows its display format, often m/d/yy with no time
+    for (const [address, cell] of Object.entries(sheet)) {
+      if (!address.startsWith('!') && (cell as XLSX.CellObject).t === 'd') {
+        (cell as XLSX.CellObject).w = isoDateCell(new Date((cell as XLSX.CellObject).v as Date));
+      }
+    }
+
+    const headerRow = this.options.headerRow || 1;
+    // raw: false returns the formatted cell text, which is what a CSV export of the sheet would contain;
+    // dates were rewritten above as ISO text the date parser reads
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+      header: 1,
+      raw: false,
+      defval: '',
+      blankrows: true,
+      range: headerRow - 1
+    });
+    if (rows.length === 0) {
+      throw new ValidationError('Worksheet is empty', { sheet: sheetName, headerRow });
+    }
+
+    const headers = rows[0].map(toCell);
+
+    async function* records(): AsyncGenerator<SourceRecord> {
+      for (let i = 1; i < rows.length; i++) {
+        const row = rows[i];
+        if (row.every(cell => toCell(cell) === '')) continue;
+
+        const values: Record<string, string> = {};
+        headers.forEach((h, col) => values[h] = toCell(row[col]));
+        yield { values, line: headerRow + i };
+      }
+    }
+
+    return { headers, records: records() };
+  }
+}
+
+export class JSONSource implements SourceReader {
+  readonly format = 'json';
+
+  constructor(private file: InputFile) {}
+
+  async describe(): Promise<string> {
+    return 'JSON array';
+  }
+
+  async read(): Promise<SourceData> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse((await InputFiles.readAll(this.file)).toString('utf-8'));
+    } catch (error: unknown) {
+      throw new ProcessingError('Invalid JSON file', { originalError: error, path: this.file.path });
+    }
+
+    if (!Array.isArray(parsed)) {
+      throw new ValidationError('JSON source must be an array of objects', { path: this.file.path });
+    }
+
+    const items = parsed;
+    const headers = new Set<string>();
+    items.forEach(item => {
+      if (isPlainObject(item)) Object.keys(item).forEach(key => headers.add(key.trim()));
+    });
+
+    const path = this.file.path;
+    async function* records(): AsyncGenerator<SourceRecord> {
+      for (let i = 0; i < items.length; i++) {
+        if (!isPlainObject(items[i])) {
+          throw new ProcessingError('JSON array element is not an object', { path, index: i });
+        }
+        yield { values: toValues(items[i]), line: i + 1 };
+      }
+    }
+
+    return { headers: [...headers], records: records() };
+  }
+}
+
+export class NDJSONSource implements SourceReader {
+  readonly format = 'ndjson';
+
+  constructor(private file: InputFile) {}
+
+  async describe(): Promise<string> {
+    return 'NDJSON';
+  }
+
+  async read(): Promise<SourceData> {
+    const path = this.file.path;
+    const rl = readline.createInterface({
+      input: this.file.open().setEncoding('utf-8'),
+      crlfDelay: Infinity
+    });
+    const lines = rl[Symbol.asyncIterator]();
+    let lineNumber = 0;
+
+    async function nextRecord(): Promise<SourceRecord | null> {
+      for (let next = await lines.next(); !next.done; next = await lines.next()) {
+        lineNumber++;
+        const text = next.value.trim();
+        if (text === '') continue;
+
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(text);
+        } catch (error: unknown) {
+          throw new ProcessingError('Invalid JSON line', { originalError: error, path, line: lineNumber });
+        }
+        if (!isPlainObject(parsed)) {
+          throw new ProcessingError('NDJSON line is not an object', { path, line: lineNumber });
+        }
+        return { values: toValues(parsed), line: lineNumber };
+      }
+      return null;
+    }
+
+    const sample: SourceRecord[] = [];
+    while (sample.length < NDJSON_HEADER_SAMPLE) {
+      const record = await nextRecord();
+      if (!record) break;
+      sample.push(record);
+    }
+
+    const headers = new Set<string>();
+    sample.forEach(record => Object.keys(record.values).forEach(key => headers.add(key)));
+
+    async function* records(): AsyncGenerator<SourceRecord> {
+      yield* sample;
+      for (let record = await nextRecord(); record; record = await nextRecord()) {
+        yield record;
+      }
+    }
+
+    return { headers: [...headers], records: records() };
+  }
+}
+
+export async function detectFormat(file: InputFile): Promise<SourceFormat> {
+  const lower = file.name.toLowerCase();
+  const extension = lower.slice(lower.lastIndexOf('.'));
+  const byExtension = EXTENSION_FORMATS[extension];
+  if (byExtension && byExtension !== 'json' && byExtension !== 'csv') {
+    return byExtension;
+  }
+
+  // Sniff the content for ambiguous or missing extensions
+  const head = await InputFiles.sample(file, 512);
+
+  if (head[0] === 0x50 && head[1] === 0x4B && head[2] === 0x03 && head[3] === 0x04) {
+    return 'xlsx';
+  }
+
+  const text = head.toString('utf-8').replace(/^\uFEFF/, '').trimStart();
+  if (text.startsWith('[')) return 'json';
+  if (text.startsWith('{')) return 'ndjson';
+  return byExtension || 'csv';
+}
+
+export async function openSource(file: InputFile, options: SourceOptions = {}): Promise<SourceReader> {
+  const format = options.format || await detectFormat(file);
+
+  switch (format) {
+    case 'csv':
+      return new CSVSource(file);
+    case 'xlsx':
+      return new XLSXSource(file, options);
+    case 'json':
+      return new JSONSource(file);
+    case 'ndjson':
+      return new NDJSONSource(file);
+    default:
+      throw new ValidationError('Unsupported source format', { format });
+  }
+}
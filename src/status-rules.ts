@@ -0,0 +1,153 @@
+import { OrderStatus, StatusCondition, StatusConditionOp, StatusDecision, StatusRule, StatusRuleSet } from './types.js';
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  'ACCEPTED',
+  'REJECTED',
+  'REJECTED_CUSTOMER',
+  'REJECTED_RESTAURANT',
+  'CANCELLED_CUSTOMER',
+  'CANCELLED_RESTAURANT',
+  'COMPLETED'
+];
+
+const VALUE_OPS: StatusConditionOp[] = ['equals', 'not_equals', 'in', 'not_in', 'gt', 'gte', 'lt', 'lte'];
+const LIST_OPS: StatusConditionOp[] = ['in', 'not_in'];
+const NUMERIC_OPS: StatusConditionOp[] = ['gt', 'gte', 'lt', 'lte'];
+const UNARY_OPS: StatusConditionOp[] = ['truthy', 'falsy'];
+
+const OP_SYMBOLS: Record<StatusConditionOp, string> = {
+  equals: '=',
+  not_equals: '!=',
+  in: 'in',
+  not_in: 'not in',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  truthy: 'is truthy',
+  falsy: 'is falsy'
+};
+
+export class StatusRules {
+  static isOrderStatus(value: any): value is OrderStatus {
+    return ORDER_STATUSES.includes(value);
+  }
+
+  /**
+   * Checks a rule set against the fields an integration produces. Returns every
+   * problem found rather than stopping at the first.
+   */
+  static validate(ruleSet: StatusRuleSet, availableFields: string[]): string[] {
+    const problems: string[] = [];
+
+    if (!ruleSet || typeof ruleSet !== 'object') {
+      return ['status_rules must be an object with "rules" and "default"'];
+    }
+
+    if (!StatusRules.isOrderStatus(ruleSet.default)) {
+      problems.push(`default must be one of ${ORDER_STATUSES.join(', ')} (got ${JSON.stringify(ruleSet.default)})`);
+    }
+
+    if (!Array.isArray(ruleSet.rules)) {
+      problems.push('rules must be an array');
+      return problems;
+    }
+
+    ruleSet.rules.forEach((rule, index) => {
+      const label = `rule #${index + 1}${rule?.name ? ` (${rule.name})` : ''}`;
+
+      if (!StatusRules.isOrderStatus(rule?.status)) {
+        problems.push(`${label}: status must be one of ${ORDER_STATUSES.join(', ')} (got ${JSON.stringify(rule?.status)})`);
+      }
+
+      if (!Array.isArray(rule?.when) || rule.when.length === 0) {
+        problems.push(`${label}: "when" must be a non-empty array of conditions`);
+        return;
+      }
+
+      rule.when.forEach((condition, conditionIndex) => {
+        const where = `${label} condition #${conditionIndex + 1}`;
+
+        if (!condition || typeof condition.field !== 'string' || condition.field === '') {
+          problems.push(`${where}: field is required`);
+        } else if (!availableFields.includes(condition.field)) {
+          problems.push(`${where}: field '${condition.field}' is not produced by the field mapping`);
+        }
+
+        if (!condition || !(condition.op in OP_SYMBOLS)) {
+          problems.push(`${where}: op must be one of ${Object.keys(OP_SYMBOLS).join(', ')}`);
+          return;
+        }
+
+        if (VALUE_OPS.includes(condition.op) && condition.value === undefined) {
+          problems.push(`${where}: op '${condition.op}' requires a value`);
+        }
+        if (LIST_OPS.includes(condition.op) && condition.value !== undefined && !Array.isArray(condition.value)) {
+          problems.push(`${where}: op '${condition.op}' requires an array value`);
+        }
+        if (NUMERIC_OPS.includes(condition.op) && condition.value !== undefined && typeof condition.value !== 'number') {
+          problems.push(`${where}: op '${condition.op}' requires a numeric value`);
+        }
+        if (UNARY_OPS.includes(condition.op) && condition.value !== undefined) {
+          problems.push(`${where}: op '${condition.op}' takes no value`);
+        }
+      });
+    });
+
+    return problems;
+  }
+
+  static evaluate(ruleSet: StatusRuleSet, record: Record<string, any>): StatusDecision {
+    for (let i = 0; i < ruleSet.rules.length; i++) {
+      const rule = ruleSet.rules[i];
+      if (rule.when.every(condition => StatusRules.matches(condition, record[condition.field]))) {
+        return { status: rule.status, rule: StatusRules.describe(rule, i) };
+      }
+    }
+    return { status: ruleSet.default, rule: 'default' };
+  }
+
+  static describe(rule: StatusRule, index: number): string {
+    const conditions = rule.when.map(condition => {
+      const value = condition.value === undefined ? '' : ` ${JSON.stringify(condition.value)}`;
+      return `${condition.field} ${OP_SYMBOLS[condition.op]}${value}`;
+    }).join(' and ');
+    return `#${index + 1}${rule.name ? ` ${rule.name}` : ''}: ${conditions} → ${rule.status}`;
+  }
+
+  private static matches(condition: StatusCondition, actual: any): boolean {
+    const normalise = (value: any) =>
+      condition.ignore_case && typeof value === 'string' ? value.toLowerCase() : value;
+
+    switch (condition.op) {
+      case 'equals':
+        return normalise(actual) === normalise(condition.value);
+      case 'not_equals':
+        return normalise(actual) !== normalise(condition.value);
+      case 'in':
+        return (condition.value as any[]).map(normalise).includes(normalise(actual));
+      case 'not_in':
+        return !(condition.value as any[]).map(normalise).includes(normalise(actual));
+      case 'gt':
+        return StatusRules.toNumber(actual) > condition.value;
+      case 'gte':
+        return StatusRules.toNumber(actual) >= condition.value;
+      case 'lt':
+        return StatusRules.toNumber(actual) < condition.value;
+      case 'lte':
+        return StatusRules.toNumber(actual) <= condition.value;
+      case 'truthy':
+        return Boolean(actual);
+      case 'falsy':
+        return !actual;
+      default:
+        return false;
+    }
+  }
+
+  // Missing or unparseable values compare false against any number
+  private static toNumber(value: any): number {
+    if (value === null || value === undefined || value === '') return NaN;
+    return typeof value === 'number' ? value : parseFloat(String(value));
+  }
+}
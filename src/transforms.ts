@@ -1,5 +1,16 @@
-import { OrderStatus, DeliveryType } from './types.js';
-import { ProcessingError, Validators } from './utils.js';
+import {
+  OrderStatus,
+  DeliveryType,
+  FieldMap,
+  FieldTransform,
+  TransformContext,
+  TransformDefinition,
+  TransformSpec,
+  TransformValueType
+} from './types.js';
+import { ProcessingError, ValidationError, Validators } from './utils.js';
+import { DateParser, DateParseOptions, DEFAULT_TIMEZONE } from './date-parser.js';
+import { NumberParser, DEFAULT_NUMBER_LOCALE } from './number-parser.js';
 
 export class DataTransforms {
   // Utility functions
@@ -20,6 +31,12 @@ export class DataTransforms {
     return isNaN(num) ? 'unknown' : `${Math.round(num * 100)}%`;
   }
 
+  // Throws on values that aren't a number in the locale rather than loading null or a wrong number
+  static parseNumber(value: string, locale: string = DEFAULT_NUMBER_LOCALE): number | null {
+    const decimal = NumberParser.parse(value, locale);
+    return decimal === null ? null : Number(decimal);
+  }
+
   static timeToMinutes(value: string): number | null {
     try {
       if (!Validators.isValidString(value)) return null;
@@ -56,50 +73,15 @@ export class DataTransforms {
     }
   }
 
-  static parseDate(value: string): Date | null {
-    try {
-      if (!Validators.isValidString(value)) return null;
-      
-      // Handle DD/MM/YYYY HH:MM:SS format (UK format)
-      const ukDateMatch = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})\s+(\d{1,2}):(\d{2}):(\d{2})$/);
-      if (ukDateMatch) {
-        const [, day, month, year, hour, minute, second] = ukDateMatch;
-        const dayNum = parseInt(day);
-        const monthNum = parseInt(month);
-        const yearNum = parseInt(year);
-        const hourNum = parseInt(hour);
-        const minuteNum = parseInt(minute);
-        const secondNum = parseInt(second);
-        
-        // Validate date components
-        if (dayNum < 1 || dayNum > 31 || monthNum < 1 || monthNum > 12 || 
-            hourNum < 0 || hourNum > 23 || minuteNum < 0 || minuteNum > 59 || 
-            secondNum < 0 || secondNum > 59) {
-          throw new ProcessingError('Invalid date/time components', { 
-            value, day: dayNum, month: monthNum, year: yearNum, 
-            hour: hourNum, minute: minuteNum, second: secondNum 
-          });
-        }
-        
-        const date = new Date(yearNum, monthNum - 1, dayNum, hourNum, minuteNum, secondNum);
-        if (isNaN(date.getTime())) {
-          throw new ProcessingError('Invalid date', { value });
-        }
-        return date;
-      }
-      
-      // Handle standard ISO format
-      const date = new Date(value);
-      if (isNaN(date.getTime())) {
-        throw new ProcessingError('Invalid date format', { value });
-      }
-      return date;
-    } catch (error: unknown) {
-      if (error instanceof ProcessingError) {
-        throw error;
-      }
-      throw new ProcessingError('Failed to parse date', { originalError: error, value });
+  // Wall-clock values are read in options.timezone (UTC by default), not the server's zone
+  static parseDate(value: string, options: DateParseOptions = {}): Date | null {
+    if (!Validators.isValidString(value)) return null;
+
+    const date = DateParser.parse(value, options);
+    if (!date) {
+      throw new ProcessingError('Invalid date format', { value, formats: options.formats, timezone: options.timezone });
     }
+    return date;
   }
 
   static parseDeliveryPlatform2Time(value: string): string {
@@ -109,20 +91,34 @@ export class DataTransforms {
 
   static parseDeliveryPlatform2DateTime(dateValue: string, timeValue: string): Date | null {
     if (!dateValue || !timeValue) return null;
+    return DataTransforms.combineDateTime(dateValue, timeValue);
+  }
+
+  // Combines a date column (YYYY-MM-DD or DD/MM/YYYY) and a time column (HH:MM or HH:MM:SS)
+  // as wall-clock time in the given zone. A missing time gives midnight.
+  static combineDateTime(dateValue: string, timeValue: string, timezone: string = DEFAULT_TIMEZONE): Date | null {
+    if (!dateValue) return null;
     
-    // Parse date (YYYY-MM-DD format)
-    const dateMatch = dateValue.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
-    if (!dateMatch) return null;
-    
-    // Parse time (HH:MM format)
-    const timeMatch = timeValue.match(/^(\d{1,2}):(\d{2})$/);
-    if (!timeMatch) return null;
+    let year: number, month: number, day: number;
+    const isoMatch = dateValue.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    const ukMatch = dateValue.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+    if (isoMatch) {
+      [year, month, day] = [parseInt(isoMatch[1]), parseInt(isoMatch[2]), parseInt(isoMatch[3])];
+    } else if (ukMatch) {
+      [day, month, year] = [parseInt(ukMatch[1]), parseInt(ukMatch[2]), parseInt(ukMatch[3])];
+    } else {
+      return null;
+    }
     
-    const [, year, month, day] = dateMatch;
-    const [, hour, minute] = timeMatch;
+    let hour = 0, minute = 0, second = 0;
+    if (timeValue) {
+      const timeMatch = timeValue.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+      if (!timeMatch) return null;
+      [hour, minute, second] = [parseInt(timeMatch[1]), parseInt(timeMatch[2]), parseInt(timeMatch[3] || '0')];
+    }
     
-    const date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day), parseInt(hour), parseInt(minute), 0);
-    return isNaN(date.getTime()) ? null : date;
+    if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59 || second > 59) return null;
+    return DateParser.fromZonedParts(year, month, day, hour, minute, second, 0, timezone);
   }
 
   static deliveryType(value: string): DeliveryType {
@@ -168,44 +164,202 @@ export class DataTransforms {
     return DataTransforms.existsOrDefault(value);
   }
 
-  // Master transform dispatcher
-  static runTransformation(value: string, transformName: string): any {
-    switch (transformName) {
-      // Utility transforms
-      case 'existsOrEmpty':
-        return DataTransforms.existsOrEmpty(value);
-      case 'existsOrDefault':
-        return DataTransforms.existsOrDefault(value);
-      case 'parseBoolean':
-        return DataTransforms.parseBoolean(value);
-      case 'parsePercentage':
-        return DataTransforms.parsePercentage(value);
-      case 'timeToMinutes':
-        return DataTransforms.timeToMinutes(value);
-      case 'parseDate':
-        return DataTransforms.parseDate(value);
-      case 'parseDeliveryPlatform2Time':
-        return DataTransforms.parseDeliveryPlatform2Time(value);
-      case 'parseDeliveryPlatform2DateTime':
-        // This requires both date and time values - will be handled specially
-        return DataTransforms.parseDate(value);
-      case 'deliveryType':
-        return DataTransforms.deliveryType(value);
-      
-      // Platform-specific transforms
-      case 'deliveryPlatform1OrderStatus':
-        return DataTransforms.deliveryPlatform1OrderStatus(value);
-      case 'deliveryPlatform1Boolean':
-        return DataTransforms.deliveryPlatform1Boolean(value);
-      case 'deliveryPlatform1CancelledBy':
-        return DataTransforms.deliveryPlatform1CancelledBy(value);
-      case 'deliveryPlatform3OrderStatus':
-        return DataTransforms.deliveryPlatform3OrderStatus(value);
-      case 'deliveryPlatform2AcceptStatus':
-        return DataTransforms.deliveryPlatform2AcceptStatus(value);
-      
-      default:
-        return value;
+  // Master transform dispatcher, kept for callers that pass a bare name
+  static runTransformation(value: string, transform: FieldTransform, context?: TransformContext): any {
+    return TransformRegistry.run(value, transform, context);
+  }
+}
+
+const VALUE_TYPES: TransformValueType[] = ['string', 'number', 'boolean', 'date', 'any'];
+
+/**
+ * Named transforms available to field mappings. Each declares the arguments it
+ * accepts and the type it produces, so mappings can be checked before they are
+ * saved instead of failing (or silently passing raw values) at load time.
+ */
+export class TransformRegistry {
+  private static transforms = new Map<string, TransformDefinition>();
+
+  static register(name: string, definition: TransformDefinition, options: { replace?: boolean } = {}): void {
+    if (!name || typeof name !== 'string') {
+      throw new ValidationError('Transform name is required', { name });
+    }
+    if (TransformRegistry.transforms.has(name) && !options.replace) {
+      throw new ValidationError('Transform is already registered', { name });
+    }
+    if (!VALUE_TYPES.includes(definition.output)) {
+      throw new ValidationError('Invalid transform output type', { name, output: definition.output });
     }
+    TransformRegistry.transforms.set(name, definition);
+  }
+
+  static has(name: string): boolean {
+    return TransformRegistry.transforms.has(name);
+  }
+
+  static get(name: string): TransformDefinition | undefined {
+    return TransformRegistry.transforms.get(name);
   }
-} 
\ No newline at end of file
+
+  static list(): Array<{ name: string } & TransformDefinition> {
+    return [...TransformRegistry.transforms.entries()]
+      .map(([name, definition]) => ({ name, ...definition }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Normalises the string / object / array forms a mapping may use into a chain
+  static steps(transform: FieldTransform): TransformSpec[] {
+    const items = Array.isArray(transform) ? transform : [transform];
+    return items.map(item => typeof item === 'string' ? { name: item } : item);
+  }
+
+  // Type produced by the last step of the chain
+  static outputType(transform: FieldTransform): TransformValueType {
+    const steps = TransformRegistry.steps(transform);
+    const last = steps[steps.length - 1];
+    return TransformRegistry.transforms.get(last?.name)?.output ?? 'any';
+  }
+
+  /**
+   * Checks that every step names a registered transform with valid arguments and,
+   * when the field declares a type, that the chain produces it. Returns every
+   * problem found rather than stopping at the first.
+   */
+  static validate(transform: FieldTransform, fieldType?: FieldMap['type']): string[] {
+    const problems: string[] = [];
+    const items = Array.isArray(transform) ? transform : [transform];
+
+    if (items.length === 0) {
+      return ['transform chain is empty'];
+    }
+
+    items.forEach((item, index) => {
+      const label = items.length > 1 ? `step #${index + 1}` : 'transform';
+
+      if (typeof item !== 'string' && (!item || typeof item !== 'object' || typeof item.name !== 'string')) {
+        problems.push(`${label}: must be a transform name or { name, args }`);
+        return;
+      }
+
+      const spec = typeof item === 'string' ? { name: item } : item;
+      const definition = TransformRegistry.transforms.get(spec.name);
+      if (!definition) {
+        problems.push(`${label}: unknown transform '${spec.name}'`);
+        return;
+      }
+
+      const params = definition.params || {};
+      const args = spec.args ?? {};
+      if (typeof args !== 'object' || Array.isArray(args)) {
+        problems.push(`${label}: args for '${spec.name}' must be an object`);
+        return;
+      }
+
+      for (const [argName, value] of Object.entries(args)) {
+        const param = params[argName];
+        if (!param) {
+          const accepted = Object.keys(params);
+          problems.push(`${label}: '${spec.name}' has no argument '${argName}'` +
+            (accepted.length > 0 ? ` (accepts ${accepted.join(', ')})` : ' (takes no arguments)'));
+        } else if (typeof value !== param.type) {
+          problems.push(`${label}: argument '${argName}' of '${spec.name}' must be a ${param.type}`);
+        }
+      }
+
+      for (const [paramName, param] of Object.entries(params)) {
+        if (param.required && args[paramName] === undefined) {
+          problems.push(`${label}: '${spec.name}' requires argument '${paramName}'`);
+        }
+      }
+    });
+
+    if (problems.length === 0 && fieldType) {
+      const output = TransformRegistry.outputType(transform);
+      const compatible = output === 'any' || output === fieldType || (fieldType === 'enum' && output === 'string');
+      if (!compatible) {
+        problems.push(`transform produces ${output} but the field is declared as ${fieldType}`);
+      }
+    }
+
+    return problems;
+  }
+
+  static run(value: any, transform: FieldTransform, context: TransformContext = { timezone: DEFAULT_TIMEZONE }): any {
+    let result = value;
+    for (const spec of TransformRegistry.steps(transform)) {
+      const definition = TransformRegistry.transforms.get(spec.name);
+      if (!definition) {
+        throw new ProcessingError('Unknown transform', { transform: spec.name });
+      }
+      result = definition.fn(result, spec.args ?? {}, context);
+    }
+    return result;
+  }
+}
+
+// Built-in transforms
+TransformRegistry.register('existsOrEmpty', {
+  fn: value => DataTransforms.existsOrEmpty(value),
+  output: 'string'
+});
+TransformRegistry.register('existsOrDefault', {
+  fn: (value, args) => DataTransforms.existsOrDefault(value, args.defaultValue),
+  params: { defaultValue: { type: 'string' } },
+  output: 'string'
+});
+TransformRegistry.register('parseBoolean', {
+  fn: (value, args) => DataTransforms.parseBoolean(value, args.trueValue),
+  params: { trueValue: { type: 'string' } },
+  output: 'boolean'
+});
+TransformRegistry.register('parsePercentage', {
+  fn: value => DataTransforms.parsePercentage(value),
+  output: 'string'
+});
+TransformRegistry.register('parseNumber', {
+  fn: (value, _args, context) => DataTransforms.parseNumber(value, context.locale),
+  output: 'number'
+});
+TransformRegistry.register('timeToMinutes', {
+  fn: value => DataTransforms.timeToMinutes(value),
+  output: 'number'
+});
+TransformRegistry.register('parseDate', {
+  fn: (value, _args, context) => DataTransforms.parseDate(value, context),
+  output: 'date'
+});
+TransformRegistry.register('deliveryType', {
+  fn: value => DataTransforms.deliveryType(value),
+  output: 'string'
+});
+
+// Platform-specific transforms
+TransformRegistry.register('parseDeliveryPlatform2Time', {
+  fn: value => DataTransforms.parseDeliveryPlatform2Time(value),
+  output: 'string'
+});
+TransformRegistry.register('parseDeliveryPlatform2DateTime', {
+  // Superseded by derived datetime fields; kept so older mappings still resolve
+  fn: (value, _args, context) => DataTransforms.parseDate(value, context),
+  output: 'date'
+});
+TransformRegistry.register('deliveryPlatform1OrderStatus', {
+  fn: value => DataTransforms.deliveryPlatform1OrderStatus(value),
+  output: 'string'
+});
+TransformRegistry.register('deliveryPlatform1Boolean', {
+  fn: value => DataTransforms.deliveryPlatform1Boolean(value),
+  output: 'boolean'
+});
+TransformRegistry.register('deliveryPlatform1CancelledBy', {
+  fn: value => DataTransforms.deliveryPlatform1CancelledBy(value),
+  output: 'string'
+});
+TransformRegistry.register('deliveryPlatform3OrderStatus', {
+  fn: value => DataTransforms.deliveryPlatform3OrderStatus(value),
+  output: 'string'
+});
+TransformRegistry.register('deliveryPlatform2AcceptStatus', {
+  fn: value => DataTransforms.deliveryPlatform2AcceptStatus(value),
+  output: 'string'
+});
@@ -28,7 +28,38 @@ export type DeliveryType =
   | 'PICKUP'
   | 'UNKNOWN';
 
-export type TransformFunction = (value: string) => any;
+// Per-field settings a transform may need beyond its own arguments
+export interface TransformContext {
+  timezone: string;
+  formats?: string[];
+  // BCP 47 locale numbers are written in, e.g. 'de-DE'
+  locale?: string;
+}
+
+export type TransformFunction = (value: any, args: Record<string, any>, context: TransformContext) => any;
+
+export type TransformValueType = 'string' | 'number' | 'boolean' | 'date' | 'any';
+
+export interface TransformParam {
+  type: 'string' | 'number' | 'boolean';
+  required?: boolean;
+}
+
+export interface TransformDefinition {
+  fn: TransformFunction;
+  params?: Record<string, TransformParam>;
+  output: TransformValueType;
+  description?: string;
+}
+
+// A transform reference in a field mapping, optionally with arguments
+export interface TransformSpec {
+  name: string;
+  args?: Record<string, any>;
+}
+
+// A single transform, or a chain applied left to right
+export type FieldTransform = string | TransformSpec | Array<string | TransformSpec>;
 
 export interface OrderData {
   id?: number;
@@ -37,9 +68,10 @@ export interface OrderData {
   restaurant_id: number;
   order_status: OrderStatus;
   delivery_type?: DeliveryType;
-  order_value?: number;
+  // Money is exact decimal text, e.g. '1234.56', rounded only by the DECIMAL(10,2) column
+  order_value?: string;
   basket_size?: number;
-  discount_amount?: number;
+  discount_amount?: string;
   order_datetime?: Date;
   restaurant_wait_time_minutes?: number;
   total_delivery_time_minutes?: number;
@@ -47,6 +79,7 @@ export interface OrderData {
   prep_time_minutes?: number;
   currency_code?: string;
   auto_accept_status?: string;
+  ingestion_job_id?: number;
   created_at?: Date;
 }
 
@@ -59,16 +92,72 @@ export interface Rating {
   rating_type: string;
   comment?: string;
   rating_date?: Date;
+  ingestion_job_id?: number;
   created_at?: Date;
 }
 
+// How a derived field combines its source columns
+export type DeriveFunction = 
+  | 'datetime'   // [date column, time column] → Date
+  | 'sum'        // numeric columns added together → number
+  | 'coalesce'   // first non-empty column, then type/transform as usual
+  | 'concat';    // non-empty columns joined with separator, then type/transform as usual
+
 export interface FieldMap {
   target: string;
   type?: 'string' | 'number' | 'boolean' | 'date' | 'enum';
   enum_values?: string[];
-  transform?: string;
+  transform?: FieldTransform;
+  // Date patterns tried in order, e.g. 'DD/MM/YYYY HH:mm:ss'; read in the integration's timezone
+  format?: string | string[];
+  // Locale the column's numbers are written in, overriding the integration's number_locale
+  locale?: string;
   required?: boolean;
   default?: any;
+  // Derived fields: the field_mapping key is only a label and the value comes from these columns
+  sources?: string[];
+  derive?: DeriveFunction;
+  separator?: string;
+  // Other header names the column goes by; the field_mapping key is the canonical one
+  aliases?: string[];
+}
+
+export type StatusConditionOp = 
+  | 'equals'
+  | 'not_equals'
+  | 'in'
+  | 'not_in'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'truthy'
+  | 'falsy';
+
+// A test against one transformed field (a field_mapping target)
+export interface StatusCondition {
+  field: string;
+  op: StatusConditionOp;
+  value?: any;
+  ignore_case?: boolean;
+}
+
+// Fires when every condition holds; rules are tried in order
+export interface StatusRule {
+  name?: string;
+  when: StatusCondition[];
+  status: OrderStatus;
+}
+
+export interface StatusRuleSet {
+  rules: StatusRule[];
+  default: OrderStatus;
+}
+
+export interface StatusDecision {
+  status: OrderStatus;
+  // Label of the rule that fired, or 'default'
+  rule: string;
 }
 
 export interface Integration {
@@ -77,11 +166,117 @@ export interface Integration {
   platform_id: number;
   field_mapping: Record<string, FieldMap>;
   tables: string[];
+  status_rules?: StatusRuleSet | null;
+  // IANA zone of the source's wall-clock times, e.g. 'Europe/London'; UTC when unset
+  timezone?: string | null;
+  // BCP 47 locale of the source's numbers, e.g. 'de-DE' for 1.234,56; en-GB when unset
+  number_locale?: string | null;
+  // Headers a file must have before detection considers this integration
+  signature_headers?: string[] | null;
+  // What a load does when the file's columns have drifted from the mapping; warn when unset
+  drift_policy?: DriftPolicy | null;
   is_active: boolean;
   created_at?: Date;
+  // The saved version this definition is; a pinned version when loading with --version
+  current_version_id?: number | null;
+  // Joined in by the listing queries
+  platform_name?: string;
+  version?: number;
+}
+
+export interface IntegrationMatch {
+  integration: Integration;
+  // Fraction of the integration's mapped columns present in the file headers
+  score: number;
+  // Mapped column → the file header it was found under
+  columns: Record<string, string>;
+}
+
+export type HeaderMatchKind = 'exact' | 'normalised' | 'alias';
+
+export interface HeaderMatch {
+  column: string;
+  header: string;
+  via: HeaderMatchKind;
+}
+
+export interface DetectionCandidate {
+  integration: Integration;
+  score: number;
+  matched: HeaderMatch[];
+  missing: string[];
+  missingSignature: string[];
+  // Has every signature header and scores above the threshold
+  eligible: boolean;
+}
+
+export interface DetectionResult {
+  match: IntegrationMatch | null;
+  // Every active integration, best score first
+  candidates: DetectionCandidate[];
+  ambiguous: boolean;
+  // Why nothing was picked
+  reason?: string;
+}
+
+export interface FieldStats {
+  target: string;
+  present: boolean;
+  seen: number;
+  empty: number;
+  parseFailures: number;
+}
+
+export interface ValidationReport {
+  path: string;
+  format: SourceFormat;
+  integration: string;
+  score?: number;
+  timezone: string;
+  alreadyProcessed: boolean;
+  totalRows: number;
+  validRows: number;
+  skippedRows: number;
+  errorRows: number;
+  skipReasons: Record<string, number>;
+  errors: { line: number; message: string }[];
+  fields: Record<string, FieldStats>;
+  orderStatuses: Record<string, number>;
+  // Keyed by rule label, with the first few lines each rule fired on
+  statusRules: Record<string, { count: number; lines: number[] }>;
+  deliveryTypes: Record<string, number>;
+  minOrderDatetime?: Date;
+  maxOrderDatetime?: Date;
+}
+
+// 'file' commits the whole file at once; 'batch' commits after every batch
+export type TransactionMode = 'file' | 'batch';
+
+export type SourceFormat = 'csv' | 'xlsx' | 'json' | 'ndjson';
+
+export interface SourceOptions {
+  // Detected from the extension and file content when omitted
+  format?: SourceFormat;
+  // XLSX only: worksheet name (defaults to the first sheet) and 1-based header row
+  sheet?: string;
+  headerRow?: number;
+  // Zip archives only: read just this member
+  member?: string;
+}
+
+export interface LoadOptions extends SourceOptions {
+  batchSize?: number;
+  transactionMode?: TransactionMode;
+  // Load even if data_source_files already has the file; the new job is linked to the earlier one
+  force?: boolean;
+  reprocessOf?: number;
+  // Load through this saved version of the integration instead of the current one
+  integrationVersion?: number;
+  // Continue an interrupted job for the same file from its checkpoint (default true)
+  resume?: boolean;
 }
 
-export type JobStatus = 'pending' | 'completed' | 'failed';
+export type JobStatus = 'pending' | 'running' | 'completed' | 'partial' | 'failed' | 'cancelled' | 'rolled_back';
 
 export interface IngestionJob {
   id?: number;
@@ -95,6 +290,83 @@ export interface IngestionJob {
   error_message?: string;
   started_at?: Date;
   completed_at?: Date;
+  reprocess_of?: number | null;
+  integration_version_id?: number | null;
+  source_headers?: string[] | null;
+  schema_drift?: SchemaDrift | null;
+  // Failure details: the error's code and context
+  error_context?: Record<string, any> | null;
+  // host:pid of the process running the job, and when it last reported progress
+  worker?: string | null;
+  heartbeat_at?: Date | null;
+  cancel_requested_at?: Date | null;
+  file_hash?: string | null;
+  // Last batch committed in --transaction batch mode; a re-run of the same file continues from here
+  checkpoint?: JobCheckpoint | null;
+  resume_count?: number;
+  // Zip archive the job's file was a member of
+  archive_path?: string | null;
+  // Joined in by getJobs / getJobDetails
+  integration_name?: string;
+  integration_version?: number | null;
+  stale?: boolean;
+  quarantined_rows?: number;
+}
+
+export interface JobCheckpoint {
+  // Source records consumed, all of them committed
+  offset: number;
+  processed: number;
+  skipped: number;
+  errors: number;
+  // Rows filling each mapped column, for the always-empty drift check
+  filled: Record<string, number>;
+  // The load read to the end of the file, so there is nothing to resume even if the job failed
+  finished?: boolean;
+}
+
+export interface JobFilters {
+  status?: JobStatus;
+  integration?: string;
+  since?: Date;
+  until?: Date;
+  // Only running jobs whose process has stopped reporting progress
+  stale?: boolean;
+  limit?: number;
+}
+
+export interface ProcessResult {
+  path: string;
+  integration: string;
+  // 'duplicate' when data_source_files already holds the same content for the integration
+  status: JobStatus | 'duplicate';
+  jobId?: number;
+  totalRows: number;
+  processed: number;
+  skipped: number;
+  errors: number;
+  duplicateOf?: DataSourceFile;
+  drift?: SchemaDrift;
+  // Zip archives: one result per member; the archive's own counters are their sums
+  members?: ProcessResult[];
+  // Why a member of an archive failed to load, while the others carried on
+  error?: string;
+}
+
+// One file of a multi-file load: its result, or the error that stopped it
+export interface FileOutcome {
+  path: string;
+  result?: ProcessResult;
+  error?: Error;
+}
+
+export interface WatchOptions extends LoadOptions {
+  // How often the inbox is scanned
+  intervalMs?: number;
+  // How long a file's size and mtime must stay unchanged before it counts as fully written
+  settleMs?: number;
+  // Per-file summary log; defaults to watch.log inside the inbox
+  logPath?: string;
 }
 
 export interface DataSourceFile {
@@ -105,18 +377,217 @@ export interface DataSourceFile {
   total_rows: number;
   job_id?: number;
   processed_at?: Date;
+  archive_path?: string | null;
+}
+
+// One unit of base_currency buys `rate` of quote_currency on rate_date
+export interface FxRate {
+  base_currency: string;
+  quote_currency: string;
+  // YYYY-MM-DD
+  rate_date: string;
+  // Decimal text as written in the rates file, stored without going through a float
+  rate: string;
+}
+
+// Coverage of one currency pair in fx_rates, for `fx list`
+export interface FxRatePair {
+  base_currency: string;
+  quote_currency: string;
+  first_date: string;
+  last_date: string;
+  days: number;
+  last_imported_at: Date;
 }
 
-export interface JobUpdate {
+export type QuarantineStatus = 'pending' | 'resolved';
+
+export interface QuarantinedRecord {
   id?: number;
+  job_id: number;
   integration_id?: number;
-  file_path?: string;
-  status?: JobStatus;
-  total_rows?: number;
-  processed_rows?: number;
-  inserted_rows?: number;
-  error_rows?: number;
-  error_message?: string;
-  started_at?: Date;
-  completed_at?: Date;
-} 
\ No newline at end of file
+  line_number: number;
+  raw_record: Record<string, string>;
+  target_table?: string;
+  error_code: string;
+  error_message: string;
+  error_context?: Record<string, any>;
+  status: QuarantineStatus;
+  created_at?: Date;
+  resolved_at?: Date;
+}
+
+// Row counts per lineage table (restaurants, orders, ratings)
+export interface RollbackResult {
+  jobId: number;
+  restored: Record<string, number>;
+  deleted: Record<string, number>;
+}
+
+export interface OrderChange {
+  order_id: number;
+  job_id: number | null;
+  column_name: string;
+  old_value: any;
+  new_value: any;
+  changed_at: Date;
+  file_path?: string | null;
+}
+
+export interface OrderTimeline {
+  order: OrderData & { platform: string; restaurant_name: string };
+  // Job that first inserted the order, when it was loaded with lineage
+  createdBy: { job_id: number; file_path: string; created_at: Date } | null;
+  changes: OrderChange[];
+}
+
+export interface JobChangeSummary {
+  jobId: number;
+  inserted: number;
+  changed: number;
+  unchanged: number;
+  // Orders changed per column
+  columns: Record<string, number>;
+  statusTransitions: Array<{ from: string | null; to: string | null; count: number }>;
+}
+
+export type MatchStatus = 'proposed' | 'accepted' | 'rejected';
+
+export interface Brand {
+  id: number;
+  name: string;
+  created_at?: Date;
+}
+
+export interface Location {
+  id: number;
+  brand_id: number;
+  name: string;
+  created_at?: Date;
+}
+
+// A platform restaurant as the matcher sees it
+export interface MatchCandidate {
+  id: number;
+  name: string;
+  platform_id: number;
+  external_id?: string | null;
+  location_id?: number | null;
+}
+
+export interface MatchProposal {
+  restaurant_id: number;
+  candidate_id: number;
+  score: number;
+  reasons: string[];
+}
+
+export interface RestaurantMatch extends MatchProposal {
+  id: number;
+  status: MatchStatus;
+  restaurant_name: string;
+  restaurant_platform: string;
+  candidate_name: string;
+  candidate_platform: string;
+  created_at: Date;
+  reviewed_at?: Date | null;
+}
+
+export interface LocationSummary extends Location {
+  brand_name: string;
+  restaurants: Array<{ id: number; name: string; platform: string; source: string }>;
+}
+
+export type AnalysisGrouping = 'restaurant' | 'location' | 'brand';
+
+export type RestaurantAliasType = 'name' | 'external_id';
+
+export interface RestaurantAlias {
+  id: number;
+  restaurant_id: number;
+  platform_id: number;
+  alias_type: RestaurantAliasType;
+  value: string;
+  first_seen_at: Date;
+  last_seen_at: Date;
+}
+
+export interface RestaurantMergeResult {
+  mergeId: number;
+  fromId: number;
+  intoId: number;
+  ordersMoved: number;
+  ratingsMoved: number;
+  aliasesMoved: number;
+}
+
+export type DefinitionFormat = 'json' | 'yaml';
+
+// An integration as kept in a mapping file: the platform is named rather than referenced by id
+export interface IntegrationDefinition {
+  name: string;
+  platform: string;
+  tables: string[];
+  timezone?: string | null;
+  number_locale?: string | null;
+  signature_headers?: string[] | null;
+  drift_policy?: DriftPolicy | null;
+  is_active?: boolean;
+  field_mapping: Record<string, FieldMap>;
+  status_rules?: StatusRuleSet | null;
+}
+
+export interface DefinitionChange {
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: any;
+  after?: any;
+}
+
+export interface MappingProblem {
+  severity: 'error' | 'warning';
+  // field_mapping key the problem is about, when it is about one field
+  field?: string;
+  message: string;
+}
+
+export interface IntegrationVersion {
+  id: number;
+  integration_id: number;
+  version: number;
+  platform_id: number;
+  field_mapping: Record<string, FieldMap>;
+  tables: string[];
+  status_rules?: StatusRuleSet | null;
+  timezone?: string | null;
+  number_locale?: string | null;
+  signature_headers?: string[] | null;
+  drift_policy?: DriftPolicy | null;
+  note?: string | null;
+  created_at: Date;
+  // Joined in by getIntegrationVersions
+  platform_name?: string;
+  job_count?: number;
+  is_current?: boolean;
+}
+
+export type DriftPolicy = 'warn' | 'fail' | 'continue';
+
+export interface SchemaDrift {
+  // Columns the file has that no field maps
+  unmapped: string[];
+  // Those of them the integration's previous job did not have; all of them on its first job
+  added: string[];
+  // Mapped columns the file does not have
+  missing: string[];
+  // Mapped columns present but empty in every row
+  empty: string[];
+}
+
+export interface JobDrift {
+  job_id: number;
+  file_path: string;
+  status: JobStatus;
+  started_at: Date;
+  drift: SchemaDrift;
+}
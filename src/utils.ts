@@ -39,6 +39,16 @@ export class DatabaseError extends Error implements AppError {
   }
 }
 
+// Error contexts often carry the original Error, which JSON.stringify drops to {}
+export function serializeErrorContext(context: Record<string, any> = {}): Record<string, any> {
+  return JSON.parse(JSON.stringify(context, (_key, value) => {
+    if (value instanceof Error) {
+      return { name: value.name, message: value.message, code: (value as Partial<AppError>).code };
+    }
+    return value;
+  }));
+}
+
 // Input validation utilities
 export class Validators {
   static isValidFilePath(path: string): boolean {
@@ -46,11 +56,11 @@ export class Validators {
   }
 
   static isValidIntegrationKey(key: string): boolean {
-    return /^[a-z_]+$/.test(key);
+    return /^[a-z0-9_]+$/.test(key);
   }
 
   static isValidCommand(command: string): boolean {
-    return ['process', 'analyse'].includes(command);
+    return ['process', 'validate', 'detect', 'watch', 'reprocess', 'rollback', 'timeline', 'changes', 'jobs', 'restaurants', 'integrations', 'analyse', 'fx', 'quarantine'].includes(command);
   }
 
   static isValidString(value: any): boolean {